@@ -3,9 +3,14 @@ import { Navigation } from './components/Navigation';
 import { LinkShortener } from './components/LinkShortener';
 import { LinksList } from './components/LinksList';
 import { Dashboard } from './components/Dashboard';
+import { AuthForm } from './components/AuthForm';
+import { BulkLinkUpload } from './components/BulkLinkUpload';
+import { TeamSettings } from './components/TeamSettings';
+import { useAuth } from './hooks/useApi';
 
 function App() {
   const [activeTab, setActiveTab] = useState('create');
+  const { user, loading: authLoading, login, signup, logout } = useAuth();
   const [darkMode, setDarkMode] = useState(() => {
     return localStorage.getItem('darkMode') === 'true';
   });
@@ -28,7 +33,13 @@ function App() {
   const renderContent = () => {
     switch (activeTab) {
       case 'create':
-        return <LinkShortener onLinkCreated={handleLinkCreated} />;
+        return (
+          <>
+            <LinkShortener onLinkCreated={handleLinkCreated} />
+            <BulkLinkUpload />
+            <TeamSettings />
+          </>
+        );
       case 'links':
         return <LinksList />;
       case 'dashboard':
@@ -45,23 +56,37 @@ function App() {
         onTabChange={setActiveTab}
         darkMode={darkMode}
         onToggleDarkMode={() => setDarkMode(!darkMode)}
+        user={user}
+        onLogout={logout}
       />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8 text-center">
-          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
-            {activeTab === 'create' && 'Create Short Links'}
-            {activeTab === 'links' && 'Manage Your Links'}
-            {activeTab === 'dashboard' && 'Analytics Dashboard'}
-          </h1>
-          <p className="text-xl text-gray-600 dark:text-gray-300 max-w-2xl mx-auto">
-            {activeTab === 'create' && 'Transform long URLs into short, shareable links with advanced analytics and customization options.'}
-            {activeTab === 'links' && 'View and manage all your shortened links in one place with detailed statistics.'}
-            {activeTab === 'dashboard' && 'Track your link performance with comprehensive analytics and insights.'}
-          </p>
-        </div>
+        {authLoading && (
+          <div className="flex justify-center py-16">
+            <div className="w-8 h-8 border-4 border-purple-300 border-t-purple-600 rounded-full animate-spin" />
+          </div>
+        )}
+
+        {!authLoading && !user && <AuthForm onLogin={login} onSignup={signup} />}
+
+        {user && (
+          <>
+            <div className="mb-8 text-center">
+              <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+                {activeTab === 'create' && 'Create Short Links'}
+                {activeTab === 'links' && 'Manage Your Links'}
+                {activeTab === 'dashboard' && 'Analytics Dashboard'}
+              </h1>
+              <p className="text-xl text-gray-600 dark:text-gray-300 max-w-2xl mx-auto">
+                {activeTab === 'create' && 'Transform long URLs into short, shareable links with advanced analytics and customization options.'}
+                {activeTab === 'links' && 'View and manage all your shortened links in one place with detailed statistics.'}
+                {activeTab === 'dashboard' && 'Track your link performance with comprehensive analytics and insights.'}
+              </p>
+            </div>
 
-        {renderContent()}
+            {renderContent()}
+          </>
+        )}
       </main>
 
       {/* Background decoration */}
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Link2, LogIn, UserPlus } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { LoginRequest, SignupRequest } from '../types';
+
+interface AuthFormProps {
+  onLogin: (data: LoginRequest) => Promise<void>;
+  onSignup: (data: SignupRequest) => Promise<void>;
+}
+
+export function AuthForm({ onLogin, onSignup }: AuthFormProps) {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (mode === 'signup' && password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      if (mode === 'login') {
+        await onLogin({ email, password });
+      } else {
+        await onSignup({ email, password, name: name || undefined });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authentication failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(mode === 'login' ? 'signup' : 'login');
+    setError(null);
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <div className="w-12 h-12 bg-gradient-to-br from-purple-600 to-blue-600 rounded-lg flex items-center justify-center mx-auto mb-2">
+          <Link2 className="w-6 h-6 text-white" />
+        </div>
+        <CardTitle>{mode === 'login' ? 'Welcome back' : 'Create your account'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'signup' && (
+            <Input
+              label="Name (Optional)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          )}
+
+          <Input
+            type="email"
+            label="Email"
+            placeholder="you@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+
+          <Input
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            helper={mode === 'signup' ? 'At least 8 characters' : undefined}
+            required
+          />
+
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          )}
+
+          <Button type="submit" loading={loading} className="w-full">
+            {mode === 'login' ? <LogIn className="w-4 h-4 mr-2" /> : <UserPlus className="w-4 h-4 mr-2" />}
+            {mode === 'login' ? 'Log In' : 'Sign Up'}
+          </Button>
+        </form>
+
+        <p className="mt-6 text-center text-sm text-gray-600 dark:text-gray-400">
+          {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}{' '}
+          <button
+            type="button"
+            onClick={toggleMode}
+            className="font-medium text-purple-600 hover:text-purple-700 dark:text-purple-400"
+          >
+            {mode === 'login' ? 'Sign up' : 'Log in'}
+          </button>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
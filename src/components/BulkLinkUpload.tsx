@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Upload, FileText, Check, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { useApi } from '../hooks/useApi';
+import { BulkCreateResponse, CreateLinkRequest } from '../types';
+import { formatUrl, isValidUrl, getShortUrl } from '../lib/utils';
+import { parseCsv } from '../lib/csv';
+
+const FIELDS: (keyof CreateLinkRequest)[] = [
+  'originalUrl',
+  'domainId',
+  'customAlias',
+  'title',
+  'description',
+  'activeFrom',
+  'expiresAt',
+  'fallbackUrl',
+  'maxClicks',
+  'singleUse',
+  'forwardQuery',
+  'forwardPath',
+  'redirectType',
+  'forcePreview',
+  'ogTitle',
+  'ogDescription',
+  'ogImageUrl',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'utmTerm',
+  'utmContent',
+];
+
+function toCreateLinkRequest(raw: Record<string, unknown>): CreateLinkRequest {
+  const field = (name: keyof CreateLinkRequest) => {
+    const value = raw[name];
+    return value === undefined || value === null || value === '' ? undefined : String(value);
+  };
+
+  return {
+    originalUrl: field('originalUrl') ?? '',
+    domainId: field('domainId'),
+    customAlias: field('customAlias'),
+    title: field('title'),
+    description: field('description'),
+    activeFrom: field('activeFrom'),
+    expiresAt: field('expiresAt'),
+    fallbackUrl: field('fallbackUrl'),
+    maxClicks: field('maxClicks') ? Number(field('maxClicks')) : undefined,
+    singleUse: field('singleUse')?.toLowerCase() === 'true' || undefined,
+    forwardQuery: field('forwardQuery')?.toLowerCase() === 'true' || undefined,
+    forwardPath: field('forwardPath')?.toLowerCase() === 'true' || undefined,
+    redirectType: field('redirectType') as CreateLinkRequest['redirectType'],
+    forcePreview: field('forcePreview')?.toLowerCase() === 'true' || undefined,
+    ogTitle: field('ogTitle'),
+    ogDescription: field('ogDescription'),
+    ogImageUrl: field('ogImageUrl'),
+    utmSource: field('utmSource'),
+    utmMedium: field('utmMedium'),
+    utmCampaign: field('utmCampaign'),
+    utmTerm: field('utmTerm'),
+    utmContent: field('utmContent'),
+  };
+}
+
+function parseUpload(fileName: string, text: string): CreateLinkRequest[] {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) {
+      throw new Error('JSON uploads must contain an array of links');
+    }
+    return data.map(toCreateLinkRequest);
+  }
+  return parseCsv(text).map(toCreateLinkRequest);
+}
+
+export function BulkLinkUpload() {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<CreateLinkRequest[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [report, setReport] = useState<BulkCreateResponse | null>(null);
+
+  const { bulkCreateLinks, loading, error } = useApi();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    try {
+      const parsed = parseUpload(file.name, await file.text());
+      setRows(parsed);
+      setParseError(parsed.length ? null : 'The file does not contain any rows');
+    } catch (err) {
+      setRows([]);
+      setParseError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setReport(await bulkCreateLinks(rows));
+      setRows([]);
+    } catch (err) {
+      console.error('Failed to import links:', err);
+    }
+  };
+
+  const handleClear = () => {
+    setFileName('');
+    setRows([]);
+    setParseError(null);
+    setReport(null);
+  };
+
+  return (
+    <Card className="max-w-4xl mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="w-6 h-6 text-purple-600" />
+          Bulk Import
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Upload a CSV with a header row ({FIELDS.join(', ')}) or a JSON array of links.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:border-purple-400 transition-colors">
+          <FileText className="w-5 h-5 text-gray-500" />
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {fileName || 'Choose a .csv or .json file'}
+          </span>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+        </label>
+
+        {parseError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{parseError}</p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="overflow-x-auto max-h-96 border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+                  <tr className="text-left text-gray-600 dark:text-gray-300">
+                    <th className="px-3 py-2">#</th>
+                    <th className="px-3 py-2">URL</th>
+                    <th className="px-3 py-2">Alias</th>
+                    <th className="px-3 py-2">Title</th>
+                    <th className="px-3 py-2">Expires</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    const urlLooksValid = !!row.originalUrl && isValidUrl(formatUrl(row.originalUrl));
+                    return (
+                      <tr key={index} className="border-t border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                        <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                        <td className={`px-3 py-2 truncate max-w-xs ${urlLooksValid ? '' : 'text-red-600 dark:text-red-400'}`}>
+                          {row.originalUrl || 'Missing URL'}
+                        </td>
+                        <td className="px-3 py-2">{row.customAlias}</td>
+                        <td className="px-3 py-2 truncate max-w-xs">{row.title}</td>
+                        <td className="px-3 py-2">{row.expiresAt}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={handleSubmit} loading={loading} className="flex-1">
+                Import {rows.length} {rows.length === 1 ? 'link' : 'links'}
+              </Button>
+              <Button variant="ghost" onClick={handleClear}>
+                Clear
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+            <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="font-semibold text-green-600 dark:text-green-400">{report.created} created</span>
+              {', '}
+              <span className={`font-semibold ${report.failed ? 'text-red-600 dark:text-red-400' : ''}`}>{report.failed} failed</span>
+            </p>
+            <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+              {report.results.map((result) => (
+                <li key={result.row} className="flex items-start gap-2">
+                  {result.status === 'created' ? (
+                    <Check className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+                  ) : (
+                    <X className="w-4 h-4 mt-0.5 text-red-600 shrink-0" />
+                  )}
+                  <span className="text-gray-700 dark:text-gray-300">
+                    Row {result.row}:{' '}
+                    {result.status === 'created' && result.link
+                      ? getShortUrl(result.link, window.location.origin)
+                      : result.error}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
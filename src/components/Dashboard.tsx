@@ -1,14 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { TrendingUp, Link2, MousePointer, Clock } from 'lucide-react';
+import { TrendingUp, Link2, MousePointer, Clock, Download } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
-import { useAnalytics } from '../hooks/useApi';
+import { Button } from './ui/Button';
+import { useAnalytics, useApi } from '../hooks/useApi';
 import { formatDate, getDomainFromUrl } from '../lib/utils';
 
 const COLORS = ['#8B5CF6', '#06B6D4', '#10B981', '#F59E0B', '#EF4444'];
 
 export function Dashboard() {
-  const { analytics, loading, error } = useAnalytics();
+  const [includeBots, setIncludeBots] = useState(false);
+  const { analytics, loading, error } = useAnalytics({ includeBots });
+  const { exportLinks, loading: exporting } = useApi();
+
+  const handleExport = async () => {
+    try {
+      await exportLinks({ format: 'csv' });
+    } catch (err) {
+      console.error('Failed to export links:', err);
+    }
+  };
 
   if (loading) {
     return (
@@ -50,12 +61,27 @@ export function Dashboard() {
 
   const topLinksData = analytics.topLinks.map((link, index) => ({
     name: link.title || getDomainFromUrl(link.originalUrl),
-    clicks: link.totalClicks,
+    clicks: includeBots ? link.totalClicks + link.botClicks : link.totalClicks,
     color: COLORS[index % COLORS.length]
   }));
 
   return (
     <div className="space-y-8">
+      <div className="flex items-center justify-end gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeBots}
+            onChange={(e) => setIncludeBots(e.target.checked)}
+          />
+          Include bot traffic
+        </label>
+        <Button onClick={handleExport} loading={exporting} variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+      </div>
+
       {/* Stats Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="bg-gradient-to-br from-purple-500 to-purple-600 text-white">
@@ -212,7 +238,7 @@ export function Dashboard() {
                         </div>
                       </div>
                       <span className="font-semibold text-gray-800 dark:text-gray-200">
-                        {link.totalClicks}
+                        {includeBots ? link.totalClicks + link.botClicks : link.totalClicks}
                       </span>
                     </div>
                   ))}
@@ -3,8 +3,21 @@ import { Link2, Copy, Check, QrCode, ExternalLink, Calendar, Type, FileText } fr
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
-import { useApi } from '../hooks/useApi';
-import { isValidUrl, copyToClipboard, getDomainFromUrl } from '../lib/utils';
+import { RedirectRulesEditor, RedirectRuleDraft } from './RedirectRulesEditor';
+import { UtmBuilder } from './UtmBuilder';
+import { RedirectTypeSelect } from './RedirectTypeSelect';
+import { useApi, useDomains } from '../hooks/useApi';
+import { isValidUrl, copyToClipboard, getDomainFromUrl, getShortUrl } from '../lib/utils';
+import { CreateRedirectRuleRequest, RedirectType, UtmParams } from '../types';
+
+function toRedirectRuleRequest(rule: RedirectRuleDraft): CreateRedirectRuleRequest {
+  return {
+    platform: rule.platform || undefined,
+    country: rule.country.trim() || undefined,
+    destinationUrl: rule.destinationUrl,
+    deepLinkUrl: rule.deepLinkUrl.trim() || undefined,
+  };
+}
 
 interface LinkShortenerProps {
   onLinkCreated?: () => void;
@@ -12,17 +25,36 @@ interface LinkShortenerProps {
 
 export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
   const [url, setUrl] = useState('');
+  const [domainId, setDomainId] = useState('');
   const [customAlias, setCustomAlias] = useState('');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [activeFrom, setActiveFrom] = useState('');
   const [expiresAt, setExpiresAt] = useState('');
+  const [fallbackUrl, setFallbackUrl] = useState('');
+  const [maxClicks, setMaxClicks] = useState('');
+  const [singleUse, setSingleUse] = useState(false);
+  const [forwardQuery, setForwardQuery] = useState(false);
+  const [forwardPath, setForwardPath] = useState(false);
+  const [redirectType, setRedirectType] = useState<RedirectType>('302');
+  const [forcePreview, setForcePreview] = useState(false);
+  const [fetchMetadata, setFetchMetadata] = useState(false);
+  const [ogTitle, setOgTitle] = useState('');
+  const [ogDescription, setOgDescription] = useState('');
+  const [ogImageUrl, setOgImageUrl] = useState('');
+  const [password, setPassword] = useState('');
+  const [redirectRules, setRedirectRules] = useState<RedirectRuleDraft[]>([]);
+  const [utmParams, setUtmParams] = useState<UtmParams>({});
   const [shortUrl, setShortUrl] = useState('');
   const [qrCode, setQrCode] = useState('');
   const [copied, setCopied] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [ruleErrors, setRuleErrors] = useState<Record<number, string>>({});
 
   const { createLink, getQRCode, loading, error } = useApi();
+  const { domains: allDomains } = useDomains();
+  const domains = allDomains.filter((domain) => domain.verifiedAt);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -41,8 +73,40 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
       newErrors.expiresAt = 'Expiration date must be in the future';
     }
 
+    if (activeFrom && expiresAt && new Date(activeFrom) >= new Date(expiresAt)) {
+      newErrors.activeFrom = 'Activation must be before the expiration date';
+    }
+
+    if (fallbackUrl && !isValidUrl(fallbackUrl)) {
+      newErrors.fallbackUrl = 'Please enter a valid URL';
+    }
+
+    if (ogImageUrl && !/^https?:\/\//i.test(ogImageUrl)) {
+      newErrors.ogImageUrl = 'Please enter an http or https image URL';
+    }
+
+    if (!singleUse && maxClicks && !(Number.isInteger(Number(maxClicks)) && Number(maxClicks) > 0)) {
+      newErrors.maxClicks = 'Click limit must be a positive whole number';
+    }
+
+    if (password && password.length < 4) {
+      newErrors.password = 'Password must be at least 4 characters';
+    }
+
+    const newRuleErrors: Record<number, string> = {};
+    redirectRules.forEach((rule, index) => {
+      if (!rule.platform && !rule.country.trim()) {
+        newRuleErrors[index] = 'Choose a platform or a country';
+      } else if (rule.country.trim() && !/^[A-Z]{2}$/.test(rule.country.trim())) {
+        newRuleErrors[index] = 'Use a two-letter country code';
+      } else if (!isValidUrl(rule.destinationUrl)) {
+        newRuleErrors[index] = 'Please enter a valid destination URL';
+      }
+    });
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setRuleErrors(newRuleErrors);
+    return Object.keys(newErrors).length === 0 && Object.keys(newRuleErrors).length === 0;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -53,14 +117,29 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
     try {
       const link = await createLink({
         originalUrl: url,
+        domainId: domainId || undefined,
         customAlias: customAlias || undefined,
         title: title || undefined,
         description: description || undefined,
-        expiresAt: expiresAt || undefined,
+        activeFrom: activeFrom ? new Date(activeFrom).toISOString() : undefined,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+        fallbackUrl: fallbackUrl || undefined,
+        maxClicks: !singleUse && maxClicks ? Number(maxClicks) : undefined,
+        singleUse: singleUse || undefined,
+        forwardQuery: forwardQuery || undefined,
+        forwardPath: forwardPath || undefined,
+        redirectType,
+        forcePreview: forcePreview || undefined,
+        fetchMetadata: fetchMetadata || undefined,
+        ogTitle: ogTitle || undefined,
+        ogDescription: ogDescription || undefined,
+        ogImageUrl: ogImageUrl || undefined,
+        password: password || undefined,
+        redirectRules: redirectRules.length ? redirectRules.map(toRedirectRuleRequest) : undefined,
+        ...utmParams,
       });
 
-      const shortUrl = `${window.location.origin}/s/${link.customAlias || link.shortCode}`;
-      setShortUrl(shortUrl);
+      setShortUrl(getShortUrl(link, window.location.origin));
 
       // Generate QR code
       const qrResponse = await getQRCode(link.id);
@@ -71,7 +150,21 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
       setCustomAlias('');
       setTitle('');
       setDescription('');
+      setActiveFrom('');
       setExpiresAt('');
+      setFallbackUrl('');
+      setOgTitle('');
+      setOgDescription('');
+      setOgImageUrl('');
+      setMaxClicks('');
+      setSingleUse(false);
+      setForwardQuery(false);
+      setForwardPath(false);
+      setRedirectType('302');
+      setForcePreview(false);
+      setPassword('');
+      setRedirectRules([]);
+      setUtmParams({});
       setShowAdvanced(false);
       setErrors({});
 
@@ -184,6 +277,27 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
 
           {showAdvanced && (
             <div className="space-y-4 p-4 bg-gray-50 dark:bg-gray-900/30 rounded-lg border border-gray-200 dark:border-gray-700">
+              {domains.length > 0 && (
+                <div className="space-y-2">
+                  <label htmlFor="link-domain" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Domain
+                  </label>
+                  <select
+                    id="link-domain"
+                    value={domainId}
+                    onChange={(e) => setDomainId(e.target.value)}
+                    className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="">{window.location.host} (default)</option>
+                    {domains.map((domain) => (
+                      <option key={domain.id} value={domain.id}>
+                        {domain.hostname}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <Input
                 label="Custom Alias (Optional)"
                 placeholder="my-custom-link"
@@ -193,6 +307,15 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
                 helper="Create a custom short URL. Leave empty for auto-generated."
               />
 
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={fetchMetadata}
+                  onChange={(e) => setFetchMetadata(e.target.checked)}
+                />
+                Fill in title, description and icon from the page
+              </label>
+
               <Input
                 label="Title (Optional)"
                 placeholder="My Awesome Link"
@@ -209,6 +332,15 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
                 helper="Optional description for better organization"
               />
 
+              <Input
+                type="datetime-local"
+                label="Active From (Optional)"
+                value={activeFrom}
+                onChange={(e) => setActiveFrom(e.target.value)}
+                error={errors.activeFrom}
+                helper="Schedule the link to go live later"
+              />
+
               <Input
                 type="datetime-local"
                 label="Expires At (Optional)"
@@ -217,6 +349,113 @@ export function LinkShortener({ onLinkCreated }: LinkShortenerProps) {
                 error={errors.expiresAt}
                 helper="Set an expiration date for the link"
               />
+
+              <Input
+                label="Fallback URL (Optional)"
+                placeholder="https://example.com/offer-ended"
+                value={fallbackUrl}
+                onChange={(e) => setFallbackUrl(e.target.value)}
+                error={errors.fallbackUrl}
+                helper="Where visitors go before activation, after expiry or while the link is disabled"
+              />
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={singleUse}
+                  onChange={(e) => setSingleUse(e.target.checked)}
+                />
+                Single-use link (deactivates after the first click)
+              </label>
+
+              {!singleUse && (
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  label="Click Limit (Optional)"
+                  placeholder="100"
+                  value={maxClicks}
+                  onChange={(e) => setMaxClicks(e.target.value)}
+                  error={errors.maxClicks}
+                  helper="The link stops working after this many clicks"
+                />
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={forwardQuery}
+                  onChange={(e) => setForwardQuery(e.target.checked)}
+                />
+                Forward query string (/s/code?ref=x adds ref=x to the destination)
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={forwardPath}
+                  onChange={(e) => setForwardPath(e.target.checked)}
+                />
+                Forward extra path (/s/code/docs is appended to the destination path)
+              </label>
+
+              <Input
+                type="password"
+                label="Password (Optional)"
+                placeholder="Leave empty for a public link"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                error={errors.password}
+                helper="Visitors must enter this password before being redirected"
+                autoComplete="new-password"
+              />
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={forcePreview}
+                  onChange={(e) => setForcePreview(e.target.checked)}
+                />
+                Always show a preview of the destination before redirecting
+              </label>
+
+              <Input
+                label="Social Card Title (Optional)"
+                placeholder="Shown when the link is shared in chats and social posts"
+                value={ogTitle}
+                onChange={(e) => setOgTitle(e.target.value)}
+                maxLength={300}
+              />
+
+              <Input
+                label="Social Card Description (Optional)"
+                value={ogDescription}
+                onChange={(e) => setOgDescription(e.target.value)}
+                maxLength={1000}
+              />
+
+              <Input
+                label="Social Card Image URL (Optional)"
+                placeholder="https://example.com/card.png"
+                value={ogImageUrl}
+                onChange={(e) => setOgImageUrl(e.target.value)}
+                error={errors.ogImageUrl}
+                helper="Link previews use these instead of the destination's own; empty fields fall back to the title and description"
+              />
+
+              <RedirectTypeSelect
+                id="link-redirect-type"
+                value={redirectType}
+                onChange={setRedirectType}
+                destinationMayChange={
+                  !!(activeFrom || expiresAt || fallbackUrl || maxClicks || singleUse || password || redirectRules.length)
+                }
+              />
+
+              <UtmBuilder url={url} value={utmParams} onChange={setUtmParams} />
+
+              <RedirectRulesEditor rules={redirectRules} onChange={setRedirectRules} errors={ruleErrors} />
             </div>
           )}
 
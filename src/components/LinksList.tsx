@@ -1,15 +1,66 @@
 import React, { useState } from 'react';
-import { ExternalLink, Copy, QrCode, Calendar, TrendingUp, Eye, Check, Trash2 } from 'lucide-react';
+import { ExternalLink, Copy, QrCode, Calendar, TrendingUp, Eye, Check, Trash2, Pencil, Power, PowerOff, X, Download, Lock, RefreshCw, Bot } from 'lucide-react';
 import { Card, CardContent } from './ui/Card';
 import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { RedirectTypeSelect } from './RedirectTypeSelect';
+import { UtmBuilder } from './UtmBuilder';
 import { useLinks, useApi } from '../hooks/useApi';
-import { formatDate, getDomainFromUrl, copyToClipboard } from '../lib/utils';
+import { Link, RedirectType, UtmParams } from '../types';
+import { UTM_FIELDS, UtmField } from '../lib/utm';
+import { formatDate, getDomainFromUrl, copyToClipboard, isValidUrl, toDateTimeLocal, getShortUrl, getPreviewUrl } from '../lib/utils';
+
+interface EditForm {
+  originalUrl: string;
+  title: string;
+  description: string;
+  activeFrom: string;
+  expiresAt: string;
+  fallbackUrl: string;
+  maxClicks: string;
+  forwardQuery: boolean;
+  forwardPath: boolean;
+  redirectType: RedirectType;
+  forcePreview: boolean;
+  utmParams: UtmParams;
+  ogTitle: string;
+  ogDescription: string;
+  ogImageUrl: string;
+  password: string;
+  removePassword: boolean;
+}
+
+const EMPTY_EDIT_FORM: EditForm = {
+  originalUrl: '',
+  title: '',
+  description: '',
+  activeFrom: '',
+  expiresAt: '',
+  fallbackUrl: '',
+  maxClicks: '',
+  forwardQuery: false,
+  forwardPath: false,
+  redirectType: '302',
+  forcePreview: false,
+  utmParams: {},
+  ogTitle: '',
+  ogDescription: '',
+  ogImageUrl: '',
+  password: '',
+  removePassword: false,
+};
+
+const UTM_KEYS = Object.keys(UTM_FIELDS) as UtmField[];
 
 export function LinksList() {
   const { links, loading, error, refreshLinks } = useLinks();
-  const { getQRCode } = useApi();
+  const { getQRCode, updateLink, deleteLink, exportLinks, exportClicks, refreshLinkMetadata } = useApi();
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<EditForm>(EMPTY_EDIT_FORM);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
 
   const handleCopy = async (shortUrl: string, linkId: string) => {
     try {
@@ -35,6 +86,148 @@ export function LinksList() {
     }
   };
 
+  const handleStartEdit = (link: Link) => {
+    setEditingId(link.id);
+    setEditError(null);
+    setEditForm({
+      originalUrl: link.originalUrl,
+      title: link.title || '',
+      description: link.description || '',
+      activeFrom: link.activeFrom ? toDateTimeLocal(new Date(link.activeFrom)) : '',
+      expiresAt: link.expiresAt ? toDateTimeLocal(new Date(link.expiresAt)) : '',
+      fallbackUrl: link.fallbackUrl || '',
+      maxClicks: link.maxClicks ? String(link.maxClicks) : '',
+      forwardQuery: link.forwardQuery,
+      forwardPath: link.forwardPath,
+      redirectType: link.redirectType,
+      forcePreview: link.forcePreview,
+      utmParams: Object.fromEntries(UTM_KEYS.map((field) => [field, link[field] || undefined])),
+      ogTitle: link.ogTitle || '',
+      ogDescription: link.ogDescription || '',
+      ogImageUrl: link.ogImageUrl || '',
+      password: '',
+      removePassword: false,
+    });
+  };
+
+  const handleSaveEdit = async (link: Link) => {
+    if (!isValidUrl(editForm.originalUrl)) {
+      setEditError('Please enter a valid URL');
+      return;
+    }
+
+    if (editForm.fallbackUrl && !isValidUrl(editForm.fallbackUrl)) {
+      setEditError('Please enter a valid fallback URL');
+      return;
+    }
+
+    if (editForm.ogImageUrl && !/^https?:\/\//i.test(editForm.ogImageUrl)) {
+      setEditError('Please enter an http or https social card image URL');
+      return;
+    }
+
+    if (editForm.activeFrom && editForm.expiresAt && new Date(editForm.activeFrom) >= new Date(editForm.expiresAt)) {
+      setEditError('Activation must be before the expiration date');
+      return;
+    }
+
+    const maxClicks = editForm.maxClicks ? Number(editForm.maxClicks) : null;
+    if (maxClicks !== null && !(Number.isInteger(maxClicks) && maxClicks > 0)) {
+      setEditError('Click limit must be a positive whole number');
+      return;
+    }
+
+    if (editForm.password && editForm.password.length < 4) {
+      setEditError('Password must be at least 4 characters');
+      return;
+    }
+
+    setBusyId(link.id);
+    try {
+      await updateLink(link.id, {
+        originalUrl: editForm.originalUrl,
+        title: editForm.title || null,
+        description: editForm.description || null,
+        activeFrom: editForm.activeFrom ? new Date(editForm.activeFrom).toISOString() : null,
+        expiresAt: editForm.expiresAt ? new Date(editForm.expiresAt).toISOString() : null,
+        fallbackUrl: editForm.fallbackUrl || null,
+        maxClicks: link.singleUse ? undefined : maxClicks,
+        forwardQuery: editForm.forwardQuery,
+        forwardPath: editForm.forwardPath,
+        redirectType: editForm.redirectType,
+        forcePreview: editForm.forcePreview,
+        ...Object.fromEntries(UTM_KEYS.map((field) => [field, editForm.utmParams[field] || null])),
+        ogTitle: editForm.ogTitle || null,
+        ogDescription: editForm.ogDescription || null,
+        ogImageUrl: editForm.ogImageUrl || null,
+        // An empty password field keeps the current password
+        password: editForm.removePassword ? null : editForm.password || undefined,
+      });
+      setEditingId(null);
+      await refreshLinks();
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to update link');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = async (link: Link) => {
+    setBusyId(link.id);
+    try {
+      await updateLink(link.id, { isActive: !link.isActive });
+      await refreshLinks();
+    } catch (err) {
+      console.error('Failed to toggle link:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRefreshMetadata = async (link: Link) => {
+    setBusyId(link.id);
+    try {
+      await refreshLinkMetadata(link.id);
+      await refreshLinks();
+    } catch (err) {
+      console.error('Failed to refresh metadata:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (link: Link) => {
+    if (!window.confirm(`Delete ${link.title || getDomainFromUrl(link.originalUrl)}? Its click history will be removed too.`)) {
+      return;
+    }
+
+    setBusyId(link.id);
+    try {
+      await deleteLink(link.id);
+      await refreshLinks();
+    } catch (err) {
+      console.error('Failed to delete link:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleExportLinks = async () => {
+    try {
+      await exportLinks({ format: 'csv' });
+    } catch (err) {
+      console.error('Failed to export links:', err);
+    }
+  };
+
+  const handleExportClicks = async (linkId: string) => {
+    try {
+      await exportClicks(linkId, { format: 'csv' });
+    } catch (err) {
+      console.error('Failed to export clicks:', err);
+    }
+  };
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -91,22 +284,37 @@ export function LinksList() {
         <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
           Your Links ({links.length})
         </h2>
-        <Button onClick={refreshLinks} variant="outline" size="sm">
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={handleExportLinks} variant="outline" size="sm">
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </Button>
+          <Button onClick={refreshLinks} variant="outline" size="sm">
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {links.map((link) => {
-        const shortUrl = `${window.location.origin}/s/${link.customAlias || link.shortCode}`;
+        const shortUrl = getShortUrl(link, window.location.origin);
         const domain = getDomainFromUrl(link.originalUrl);
         const isExpired = link.expiresAt && new Date() > new Date(link.expiresAt);
+        const isScheduled = link.activeFrom && new Date() < new Date(link.activeFrom);
 
         return (
-          <Card key={link.id} className={`transition-all duration-200 ${isExpired ? 'opacity-60' : ''}`}>
+          <Card key={link.id} className={`transition-all duration-200 ${isExpired || !link.isActive ? 'opacity-60' : ''}`}>
             <CardContent>
               <div className="flex items-start justify-between gap-4">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-2">
+                    {link.faviconUrl && (
+                      <img
+                        src={link.faviconUrl}
+                        alt=""
+                        className="w-4 h-4 shrink-0"
+                        onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                      />
+                    )}
                     <h3 className="font-semibold text-gray-800 dark:text-gray-200 truncate">
                       {link.title || domain}
                     </h3>
@@ -115,6 +323,31 @@ export function LinksList() {
                         Expired
                       </span>
                     )}
+                    {isScheduled && (
+                      <span className="px-2 py-1 text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 rounded-full">
+                        Scheduled
+                      </span>
+                    )}
+                    {!link.isActive && (
+                      <span className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full">
+                        Inactive
+                      </span>
+                    )}
+                    {link.singleUse ? (
+                      <span className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-full">
+                        {link.totalClicks + link.botClicks > 0 ? 'Used' : 'Single use'}
+                      </span>
+                    ) : link.maxClicks ? (
+                      <span className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-full">
+                        {Math.max(link.maxClicks - link.totalClicks - link.botClicks, 0)} of {link.maxClicks} clicks left
+                      </span>
+                    ) : null}
+                    {link.hasPassword && (
+                      <span className="flex items-center gap-1 px-2 py-1 text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded-full">
+                        <Lock className="w-3 h-3" />
+                        Protected
+                      </span>
+                    )}
                   </div>
                   
                   <div className="space-y-2">
@@ -144,6 +377,12 @@ export function LinksList() {
                         {link.description}
                       </p>
                     )}
+
+                    {link.fallbackUrl && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                        Fallback: {link.fallbackUrl}
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-4 mt-3 text-sm text-gray-500 dark:text-gray-400">
@@ -151,10 +390,31 @@ export function LinksList() {
                       <TrendingUp className="w-4 h-4" />
                       <span>{link.totalClicks} clicks</span>
                     </div>
+                    {link.botClicks > 0 && (
+                      <div className="flex items-center gap-1" title="Crawlers, scanners and monitors, not included in clicks">
+                        <Bot className="w-4 h-4" />
+                        <span>{link.botClicks} bots</span>
+                      </div>
+                    )}
+                    <a
+                      href={getPreviewUrl(link, window.location.origin)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-1 hover:text-purple-600"
+                      title="Open preview page"
+                    >
+                      <Eye className="w-4 h-4" />
+                      <span>{link.totalPreviews} previews</span>
+                    </a>
                     <div className="flex items-center gap-1">
                       <Calendar className="w-4 h-4" />
                       <span>{formatDate(new Date(link.createdAt))}</span>
                     </div>
+                    {link.activeFrom && (
+                      <div className="flex items-center gap-1">
+                        <span>Starts: {formatDate(new Date(link.activeFrom))}</span>
+                      </div>
+                    )}
                     {link.expiresAt && (
                       <div className="flex items-center gap-1">
                         <span>Expires: {formatDate(new Date(link.expiresAt))}</span>
@@ -178,9 +438,194 @@ export function LinksList() {
                   >
                     <QrCode className="w-4 h-4" />
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleExportClicks(link.id)}
+                    title="Export clicks"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === link.id}
+                    onClick={() => handleRefreshMetadata(link)}
+                    title="Refresh title, description and icon from the page"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => (editingId === link.id ? setEditingId(null) : handleStartEdit(link))}
+                  >
+                    {editingId === link.id ? <X className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === link.id}
+                    onClick={() => handleToggleActive(link)}
+                    title={link.isActive ? 'Deactivate' : 'Activate'}
+                  >
+                    {link.isActive ? <PowerOff className="w-4 h-4" /> : <Power className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    disabled={busyId === link.id}
+                    onClick={() => handleDelete(link)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
                 </div>
               </div>
 
+              {editingId === link.id && (
+                <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                  <Input
+                    label="Destination URL"
+                    value={editForm.originalUrl}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, originalUrl: e.target.value }))}
+                  />
+                  <Input
+                    label="Title"
+                    value={editForm.title}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, title: e.target.value }))}
+                  />
+                  <Input
+                    label="Description"
+                    value={editForm.description}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
+                  />
+                  <Input
+                    type="datetime-local"
+                    label="Active From"
+                    value={editForm.activeFrom}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, activeFrom: e.target.value }))}
+                    helper="Leave empty for a link that is live immediately"
+                  />
+                  <Input
+                    type="datetime-local"
+                    label="Expires At"
+                    value={editForm.expiresAt}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                    helper="Leave empty for a link that never expires"
+                  />
+                  <Input
+                    label="Fallback URL"
+                    value={editForm.fallbackUrl}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, fallbackUrl: e.target.value }))}
+                    helper="Used before activation, after expiry or while the link is disabled"
+                  />
+                  {!link.singleUse && (
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      label="Click Limit"
+                      value={editForm.maxClicks}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, maxClicks: e.target.value }))}
+                      helper="Leave empty for unlimited clicks"
+                    />
+                  )}
+                  <Input
+                    label="Social Card Title"
+                    value={editForm.ogTitle}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, ogTitle: e.target.value }))}
+                    maxLength={300}
+                  />
+                  <Input
+                    label="Social Card Description"
+                    value={editForm.ogDescription}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, ogDescription: e.target.value }))}
+                    maxLength={1000}
+                  />
+                  <Input
+                    label="Social Card Image URL"
+                    value={editForm.ogImageUrl}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, ogImageUrl: e.target.value }))}
+                    helper="Shown when the link is shared; empty fields fall back to the title and description"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={editForm.forwardQuery}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, forwardQuery: e.target.checked }))}
+                    />
+                    Forward query string (/s/code?ref=x adds ref=x to the destination)
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={editForm.forwardPath}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, forwardPath: e.target.checked }))}
+                    />
+                    Forward extra path (/s/code/docs is appended to the destination path)
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={editForm.forcePreview}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, forcePreview: e.target.checked }))}
+                    />
+                    Always show a preview of the destination before redirecting
+                  </label>
+                  <RedirectTypeSelect
+                    id={`link-${link.id}-redirect-type`}
+                    value={editForm.redirectType}
+                    onChange={(redirectType) => setEditForm(prev => ({ ...prev, redirectType }))}
+                    destinationMayChange={
+                      !!(editForm.activeFrom || editForm.expiresAt || editForm.fallbackUrl || editForm.maxClicks) ||
+                      link.singleUse ||
+                      (link.hasPassword && !editForm.removePassword) ||
+                      !!editForm.password
+                    }
+                  />
+                  <UtmBuilder
+                    url={editForm.originalUrl}
+                    value={editForm.utmParams}
+                    onChange={(utmParams) => setEditForm(prev => ({ ...prev, utmParams }))}
+                  />
+                  {!editForm.removePassword && (
+                    <Input
+                      type="password"
+                      label={link.hasPassword ? 'New Password' : 'Password'}
+                      value={editForm.password}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, password: e.target.value }))}
+                      helper={link.hasPassword ? 'Leave empty to keep the current password' : 'Leave empty for a public link'}
+                      autoComplete="new-password"
+                    />
+                  )}
+                  {link.hasPassword && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={editForm.removePassword}
+                        onChange={(e) => setEditForm(prev => ({ ...prev, removePassword: e.target.checked, password: '' }))}
+                      />
+                      Remove password protection
+                    </label>
+                  )}
+                  {editError && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{editError}</p>
+                  )}
+                  <div className="flex gap-3">
+                    <Button
+                      size="sm"
+                      loading={busyId === link.id}
+                      onClick={() => handleSaveEdit(link)}
+                    >
+                      Save Changes
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {qrCodes[link.id] && (
                 <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                   <div className="flex justify-center">
@@ -1,15 +1,18 @@
 import React from 'react';
-import { Link2, BarChart3, List, Sun, Moon } from 'lucide-react';
+import { Link2, BarChart3, List, Sun, Moon, LogOut } from 'lucide-react';
 import { Button } from './ui/Button';
+import { User } from '../types';
 
 interface NavigationProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
   darkMode: boolean;
   onToggleDarkMode: () => void;
+  user: User | null;
+  onLogout: () => void;
 }
 
-export function Navigation({ activeTab, onTabChange, darkMode, onToggleDarkMode }: NavigationProps) {
+export function Navigation({ activeTab, onTabChange, darkMode, onToggleDarkMode, user, onLogout }: NavigationProps) {
   const tabs = [
     { id: 'create', label: 'Create Link', icon: Link2 },
     { id: 'links', label: 'My Links', icon: List },
@@ -30,25 +33,27 @@ export function Navigation({ activeTab, onTabChange, darkMode, onToggleDarkMode
           </div>
 
           <div className="flex items-center gap-4">
-            <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
-              {tabs.map((tab) => {
-                const Icon = tab.icon;
-                return (
-                  <button
-                    key={tab.id}
-                    onClick={() => onTabChange(tab.id)}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ${
-                      activeTab === tab.id
-                        ? 'bg-white dark:bg-gray-600 text-purple-600 dark:text-purple-400 shadow-sm'
-                        : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100'
-                    }`}
-                  >
-                    <Icon className="w-4 h-4" />
-                    <span className="hidden sm:inline">{tab.label}</span>
-                  </button>
-                );
-              })}
-            </div>
+            {user && (
+              <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+                {tabs.map((tab) => {
+                  const Icon = tab.icon;
+                  return (
+                    <button
+                      key={tab.id}
+                      onClick={() => onTabChange(tab.id)}
+                      className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ${
+                        activeTab === tab.id
+                          ? 'bg-white dark:bg-gray-600 text-purple-600 dark:text-purple-400 shadow-sm'
+                          : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span className="hidden sm:inline">{tab.label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
 
             <Button
               variant="ghost"
@@ -62,6 +67,23 @@ export function Navigation({ activeTab, onTabChange, darkMode, onToggleDarkMode
                 <Moon className="w-5 h-5" />
               )}
             </Button>
+
+            {user && (
+              <div className="flex items-center gap-2">
+                <span className="hidden md:inline text-sm text-gray-600 dark:text-gray-300">
+                  {user.name || user.email}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onLogout}
+                  className="w-10 h-10 p-0"
+                  title="Log out"
+                >
+                  <LogOut className="w-5 h-5" />
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
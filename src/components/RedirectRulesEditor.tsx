@@ -0,0 +1,118 @@
+import React from 'react';
+import { Plus, Trash2, Smartphone } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Platform } from '../types';
+
+export interface RedirectRuleDraft {
+  platform: Platform | '';
+  country: string;
+  destinationUrl: string;
+  deepLinkUrl: string;
+}
+
+const PLATFORM_OPTIONS: { value: Platform | ''; label: string }[] = [
+  { value: '', label: 'Any platform' },
+  { value: 'ios', label: 'iOS' },
+  { value: 'android', label: 'Android' },
+  { value: 'windows', label: 'Windows' },
+  { value: 'macos', label: 'macOS' },
+  { value: 'linux', label: 'Linux' },
+  { value: 'mobile', label: 'Any mobile' },
+  { value: 'desktop', label: 'Any desktop' },
+];
+
+const EMPTY_RULE: RedirectRuleDraft = { platform: '', country: '', destinationUrl: '', deepLinkUrl: '' };
+
+interface RedirectRulesEditorProps {
+  rules: RedirectRuleDraft[];
+  onChange: (rules: RedirectRuleDraft[]) => void;
+  errors?: Record<number, string>;
+}
+
+export function RedirectRulesEditor({ rules, onChange, errors = {} }: RedirectRulesEditorProps) {
+  const updateRule = (index: number, changes: Partial<RedirectRuleDraft>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <Smartphone className="w-4 h-4" />
+            Redirect Rules (Optional)
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Send visitors on a platform or from a country somewhere else. The most specific match wins.
+          </p>
+        </div>
+        <Button type="button" size="sm" variant="outline" onClick={() => onChange([...rules, EMPTY_RULE])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Rule
+        </Button>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="p-3 space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <label htmlFor={`rule-${index}-platform`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Platform
+              </label>
+              <select
+                id={`rule-${index}-platform`}
+                value={rule.platform}
+                onChange={(e) => updateRule(index, { platform: e.target.value as Platform | '' })}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {PLATFORM_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="w-32">
+              <Input
+                id={`rule-${index}-country`}
+                label="Country"
+                placeholder="US"
+                maxLength={2}
+                value={rule.country}
+                onChange={(e) => updateRule(index, { country: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="text-red-600 hover:text-red-700 mb-2"
+              onClick={() => onChange([...rules.slice(0, index), ...rules.slice(index + 1)])}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <Input
+            id={`rule-${index}-destination`}
+            label="Destination URL"
+            placeholder="https://apps.apple.com/app/id123456789"
+            value={rule.destinationUrl}
+            onChange={(e) => updateRule(index, { destinationUrl: e.target.value })}
+          />
+          <Input
+            id={`rule-${index}-deep-link`}
+            label="App Deep Link (Optional)"
+            placeholder="myapp://product/42"
+            value={rule.deepLinkUrl}
+            onChange={(e) => updateRule(index, { deepLinkUrl: e.target.value })}
+            helper="Tried first; visitors without the app continue to the destination URL"
+          />
+          {errors[index] && (
+            <p className="text-sm text-red-600 dark:text-red-400">{errors[index]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
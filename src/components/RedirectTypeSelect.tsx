@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { RedirectType } from '../types';
+
+const REDIRECT_TYPE_OPTIONS: { value: RedirectType; label: string }[] = [
+  { value: '302', label: '302 Found (temporary, default)' },
+  { value: '301', label: '301 Moved Permanently' },
+  { value: '308', label: '308 Permanent Redirect (keeps method)' },
+  { value: '307', label: '307 Temporary Redirect (keeps method)' },
+  { value: 'meta-refresh', label: 'HTML page with meta refresh' },
+];
+
+interface RedirectTypeSelectProps {
+  id: string;
+  value: RedirectType;
+  onChange: (value: RedirectType) => void;
+  // The link's destination depends on time, usage, visitor or password
+  destinationMayChange: boolean;
+}
+
+export function RedirectTypeSelect({ id, value, onChange, destinationMayChange }: RedirectTypeSelectProps) {
+  const isPermanent = value === '301' || value === '308';
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Redirect Type
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value as RedirectType)}
+        className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      >
+        {REDIRECT_TYPE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {isPermanent && destinationMayChange ? (
+        <p className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          Browsers cache permanent redirects, so returning visitors can skip this link's password or redirect
+          rules and keep landing on the old destination after you change it.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Permanent redirects pass on search ranking but are cached by browsers for a day.
+        </p>
+      )}
+    </div>
+  );
+}
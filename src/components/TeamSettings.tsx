@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Users, RefreshCw } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { useTeam } from '../hooks/useApi';
+
+export function TeamSettings() {
+  const { team, error: loadError, join, rotateInviteCode } = useTeam();
+  const [inviteCode, setInviteCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setInviteCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Team update failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-4xl mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-6 h-6 text-purple-600" />
+          {team ? team.name : 'Team'}
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Everyone on your team shares the same UTM presets.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {team && (
+          <>
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Members: {team.members.map((member) => member.name || member.email).join(', ')}
+            </p>
+            <div className="flex items-center gap-2">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Invite code: <code className="text-purple-700 dark:text-purple-300">{team.inviteCode}</code>
+              </p>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                title="Replace the invite code"
+                disabled={busy}
+                onClick={() => run(rotateInviteCode)}
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+          </>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label="Join another team"
+              placeholder="Invite code"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            loading={busy}
+            disabled={!inviteCode.trim()}
+            onClick={() => run(() => join(inviteCode.trim()))}
+          >
+            Join
+          </Button>
+        </div>
+
+        {(error || loadError) && <p className="text-sm text-red-600 dark:text-red-400">{error || loadError}</p>}
+      </CardContent>
+    </Card>
+  );
+}
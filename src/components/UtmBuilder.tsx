@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Tag, Save, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useUtmPresets } from '../hooks/useApi';
+import { UtmParams } from '../types';
+import { applyUtmParams, UtmField } from '../lib/utm';
+import { formatUrl, isValidUrl } from '../lib/utils';
+
+const UTM_INPUTS: { field: UtmField; label: string; placeholder: string }[] = [
+  { field: 'utmSource', label: 'Source', placeholder: 'newsletter' },
+  { field: 'utmMedium', label: 'Medium', placeholder: 'email' },
+  { field: 'utmCampaign', label: 'Campaign', placeholder: 'spring_sale' },
+  { field: 'utmTerm', label: 'Term', placeholder: 'running shoes' },
+  { field: 'utmContent', label: 'Content', placeholder: 'header_button' },
+];
+
+interface UtmBuilderProps {
+  url: string;
+  value: UtmParams;
+  onChange: (value: UtmParams) => void;
+}
+
+export function UtmBuilder({ url, value, onChange }: UtmBuilderProps) {
+  const { presets, savePreset, removePreset } = useUtmPresets();
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  const hasValues = UTM_INPUTS.some(({ field }) => value[field]);
+  const formattedUrl = url.trim() ? formatUrl(url.trim()) : '';
+  const preview = formattedUrl && isValidUrl(formattedUrl) ? applyUtmParams(formattedUrl, value) : null;
+
+  const handleSelectPreset = (id: string) => {
+    setSelectedPresetId(id);
+    const preset = presets.find((candidate) => candidate.id === id);
+    if (preset) {
+      onChange(Object.fromEntries(UTM_INPUTS.map(({ field }) => [field, preset[field] || undefined])));
+    }
+  };
+
+  const handleSavePreset = async () => {
+    setPresetError(null);
+    try {
+      const preset = await savePreset({ ...value, name: presetName.trim() });
+      setSelectedPresetId(preset.id);
+      setPresetName('');
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : 'Failed to save preset');
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    setPresetError(null);
+    try {
+      await removePreset(selectedPresetId);
+      setSelectedPresetId('');
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : 'Failed to delete preset');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <Tag className="w-4 h-4" />
+          UTM Parameters (Optional)
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Added to the destination when visitors click. Parameters already in the URL are kept.
+          Saved presets are shared with your team.
+        </p>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="UTM preset"
+            value={selectedPresetId}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            className="flex-1 px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Apply a preset…</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          {selectedPresetId && (
+            <Button type="button" size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={handleDeletePreset}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {UTM_INPUTS.map(({ field, label, placeholder }) => (
+          <Input
+            key={field}
+            id={`utm-${field}`}
+            label={label}
+            placeholder={placeholder}
+            value={value[field] ?? ''}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value || undefined })}
+          />
+        ))}
+      </div>
+
+      {hasValues && preview && (
+        <div className="p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Visitors will land on:</p>
+          <code className="text-sm text-purple-700 dark:text-purple-300 break-all">{preview}</code>
+        </div>
+      )}
+
+      {hasValues && (
+        <div className="flex items-center gap-2">
+          <input
+            aria-label="Preset name"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className="flex-1 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <Button type="button" size="sm" variant="outline" disabled={!presetName.trim()} onClick={handleSavePreset}>
+            <Save className="w-4 h-4 mr-1" />
+            Save Preset
+          </Button>
+        </div>
+      )}
+
+      {presetError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{presetError}</p>
+      )}
+    </div>
+  );
+}
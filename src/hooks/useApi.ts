@@ -1,7 +1,55 @@
 import { useState, useEffect } from 'react';
-import { Link, Analytics, CreateLinkRequest, GetLinksResponse } from '../types';
+import {
+  Link,
+  Analytics,
+  AnalyticsQuery,
+  LinkAnalytics,
+  LinkAnalyticsQuery,
+  ExportQuery,
+  CreateLinkRequest,
+  UpdateLinkRequest,
+  BulkCreateResponse,
+  GetLinksResponse,
+  User,
+  SignupRequest,
+  LoginRequest,
+  UtmPreset,
+  CreateUtmPresetRequest,
+  Team,
+  Domain,
+} from '../types';
 
 const API_BASE = import.meta.env.VITE_API_URL ? `${import.meta.env.VITE_API_URL}/api` : 'http://localhost:3001/api';
+const API_KEY = import.meta.env.VITE_API_KEY;
+
+async function apiFetch(url: string, options?: RequestInit) {
+  const response = await fetch(`${API_BASE}${url}`, {
+    credentials: 'include',
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(API_KEY ? { 'X-API-Key': API_KEY } : {}),
+      ...options?.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return response;
+}
+
+function toQueryString(query: object) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined) return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
 
 export function useApi() {
   const [loading, setLoading] = useState(false);
@@ -12,17 +60,10 @@ export function useApi() {
     setError(null);
     
     try {
-      const response = await fetch(`${API_BASE}${url}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...options?.headers,
-        },
-        ...options,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      const response = await apiFetch(url, options);
+
+      if (response.status === 204) {
+        return undefined as T;
       }
 
       return await response.json();
@@ -35,6 +76,31 @@ export function useApi() {
     }
   };
 
+  const downloadFile = async (url: string, fallbackName: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(url);
+      const blob = await response.blob();
+      const disposition = response.headers.get('Content-Disposition');
+      const filename = disposition?.match(/filename="(.+)"/)?.[1] ?? fallbackName;
+
+      const href = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = href;
+      anchor.download = filename;
+      anchor.click();
+      URL.revokeObjectURL(href);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const createLink = async (data: CreateLinkRequest): Promise<Link> => {
     return apiCall('/links', {
       method: 'POST',
@@ -42,6 +108,13 @@ export function useApi() {
     });
   };
 
+  const bulkCreateLinks = async (rows: CreateLinkRequest[]): Promise<BulkCreateResponse> => {
+    return apiCall('/links/bulk', {
+      method: 'POST',
+      body: JSON.stringify(rows),
+    });
+  };
+
   const getLinks = async (page = 1, limit = 10): Promise<GetLinksResponse> => {
     return apiCall(`/links?page=${page}&limit=${limit}`);
   };
@@ -50,22 +123,155 @@ export function useApi() {
     return apiCall(`/links/${id}`);
   };
 
+  const updateLink = async (id: string, data: UpdateLinkRequest): Promise<Link> => {
+    return apiCall(`/links/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  };
+
+  const deleteLink = async (id: string): Promise<void> => {
+    return apiCall(`/links/${id}`, {
+      method: 'DELETE',
+    });
+  };
+
   const getQRCode = async (id: string): Promise<{ qrCode: string }> => {
     return apiCall(`/links/${id}/qr`);
   };
 
-  const getAnalytics = async (): Promise<Analytics> => {
-    return apiCall('/analytics/overview');
+  const refreshLinkMetadata = async (id: string): Promise<Link> => {
+    return apiCall(`/links/${id}/metadata`, {
+      method: 'POST',
+    });
+  };
+
+  const getAnalytics = async (query: AnalyticsQuery = {}): Promise<Analytics> => {
+    return apiCall(`/analytics/overview${toQueryString(query)}`);
+  };
+
+  const getLinkAnalytics = async (id: string, query: LinkAnalyticsQuery = {}): Promise<LinkAnalytics> => {
+    return apiCall(`/links/${id}/analytics${toQueryString(query)}`);
+  };
+
+  const exportLinks = async (query: ExportQuery = {}): Promise<void> => {
+    return downloadFile(`/links/export${toQueryString(query)}`, `links.${query.format || 'csv'}`);
+  };
+
+  const exportClicks = async (id: string, query: ExportQuery = {}): Promise<void> => {
+    return downloadFile(`/links/${id}/clicks/export${toQueryString(query)}`, `clicks.${query.format || 'csv'}`);
+  };
+
+  const getUtmPresets = async (): Promise<UtmPreset[]> => {
+    return apiCall('/utm-presets');
+  };
+
+  const createUtmPreset = async (data: CreateUtmPresetRequest): Promise<UtmPreset> => {
+    return apiCall('/utm-presets', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  };
+
+  const deleteUtmPreset = async (id: string): Promise<void> => {
+    return apiCall(`/utm-presets/${id}`, {
+      method: 'DELETE',
+    });
+  };
+
+  const getTeam = async (): Promise<Team> => {
+    return apiCall('/team');
+  };
+
+  const joinTeam = async (inviteCode: string): Promise<Team> => {
+    return apiCall('/team/join', {
+      method: 'POST',
+      body: JSON.stringify({ inviteCode }),
+    });
+  };
+
+  const rotateTeamInviteCode = async (): Promise<Team> => {
+    return apiCall('/team/invite-code', {
+      method: 'POST',
+    });
+  };
+
+  const getDomains = async (): Promise<Domain[]> => {
+    return apiCall('/domains');
+  };
+
+  const createDomain = async (hostname: string): Promise<Domain> => {
+    return apiCall('/domains', {
+      method: 'POST',
+      body: JSON.stringify({ hostname }),
+    });
+  };
+
+  const verifyDomain = async (id: string): Promise<Domain> => {
+    return apiCall(`/domains/${id}/verify`, {
+      method: 'POST',
+    });
+  };
+
+  const deleteDomain = async (id: string): Promise<void> => {
+    return apiCall(`/domains/${id}`, {
+      method: 'DELETE',
+    });
+  };
+
+  const signup = async (data: SignupRequest): Promise<User> => {
+    return apiCall('/auth/signup', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  };
+
+  const login = async (data: LoginRequest): Promise<User> => {
+    return apiCall('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  };
+
+  const logout = async (): Promise<void> => {
+    return apiCall('/auth/logout', {
+      method: 'POST',
+    });
+  };
+
+  const getCurrentUser = async (): Promise<User> => {
+    return apiCall('/auth/me');
   };
 
   return {
     loading,
     error,
+    signup,
+    login,
+    logout,
+    getCurrentUser,
     createLink,
+    bulkCreateLinks,
     getLinks,
     getLink,
+    updateLink,
+    deleteLink,
     getQRCode,
+    refreshLinkMetadata,
     getAnalytics,
+    getLinkAnalytics,
+    exportLinks,
+    exportClicks,
+    getUtmPresets,
+    createUtmPreset,
+    deleteUtmPreset,
+    getTeam,
+    joinTeam,
+    rotateTeamInviteCode,
+    getDomains,
+    createDomain,
+    verifyDomain,
+    deleteDomain,
   };
 }
 
@@ -102,16 +308,17 @@ export function useLinks() {
   return { links, loading, error, refreshLinks };
 }
 
-export function useAnalytics() {
+export function useAnalytics(query: AnalyticsQuery = {}) {
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { getAnalytics } = useApi();
+  const { includeBots } = query;
 
   useEffect(() => {
     const fetchAnalytics = async () => {
       try {
-        const data = await getAnalytics();
+        const data = await getAnalytics({ includeBots });
         setAnalytics(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to fetch analytics');
@@ -121,7 +328,153 @@ export function useAnalytics() {
     };
 
     fetchAnalytics();
-  }, []);
+  }, [includeBots]);
 
   return { analytics, loading, error };
+}
+
+export function useLinkAnalytics(id: string | null, query: LinkAnalyticsQuery = {}) {
+  const [analytics, setAnalytics] = useState<LinkAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { getLinkAnalytics } = useApi();
+  const { granularity, from, to, limit, includeBots } = query;
+
+  useEffect(() => {
+    if (!id) {
+      setAnalytics(null);
+      return;
+    }
+
+    const fetchLinkAnalytics = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getLinkAnalytics(id, { granularity, from, to, limit, includeBots });
+        setAnalytics(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch link analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLinkAnalytics();
+  }, [id, granularity, from, to, limit, includeBots]);
+
+  return { analytics, loading, error };
+}
+
+export function useUtmPresets() {
+  const [presets, setPresets] = useState<UtmPreset[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { getUtmPresets, createUtmPreset, deleteUtmPreset } = useApi();
+
+  useEffect(() => {
+    const fetchPresets = async () => {
+      try {
+        setPresets(await getUtmPresets());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch UTM presets');
+      }
+    };
+
+    fetchPresets();
+  }, []);
+
+  const savePreset = async (data: CreateUtmPresetRequest) => {
+    const preset = await createUtmPreset(data);
+    setPresets(prev => [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)));
+    return preset;
+  };
+
+  const removePreset = async (id: string) => {
+    await deleteUtmPreset(id);
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+  };
+
+  return { presets, error, savePreset, removePreset };
+}
+
+export function useTeam() {
+  const [team, setTeam] = useState<Team | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { getTeam, joinTeam, rotateTeamInviteCode } = useApi();
+
+  useEffect(() => {
+    const fetchTeam = async () => {
+      try {
+        setTeam(await getTeam());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch team');
+      }
+    };
+
+    fetchTeam();
+  }, []);
+
+  const join = async (inviteCode: string) => {
+    setTeam(await joinTeam(inviteCode));
+  };
+
+  const rotateInviteCode = async () => {
+    setTeam(await rotateTeamInviteCode());
+  };
+
+  return { team, error, join, rotateInviteCode };
+}
+
+export function useDomains() {
+  const [domains, setDomains] = useState<Domain[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { getDomains } = useApi();
+
+  useEffect(() => {
+    const fetchDomains = async () => {
+      try {
+        setDomains(await getDomains());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch domains');
+      }
+    };
+
+    fetchDomains();
+  }, []);
+
+  return { domains, error };
+}
+
+export function useAuth() {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { getCurrentUser, login, signup, logout } = useApi();
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        setUser(await getCurrentUser());
+      } catch {
+        setUser(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUser();
+  }, []);
+
+  const handleLogin = async (data: LoginRequest) => {
+    setUser(await login(data));
+  };
+
+  const handleSignup = async (data: SignupRequest) => {
+    setUser(await signup(data));
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    setUser(null);
+  };
+
+  return { user, loading, login: handleLogin, signup: handleSignup, logout: handleLogout };
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { getDomainFromUrl } from './utils.js';
+
+export type Granularity = 'hour' | 'day' | 'week';
+
+export interface LinkAnalyticsOptions {
+  from: Date;
+  to: Date;
+  granularity: Granularity;
+  limit: number;
+  // Clicks flagged isBot are left out unless set
+  includeBots: boolean;
+}
+
+type BreakdownField = 'country' | 'city' | 'device' | 'browser' | 'os';
+
+// Prisma stores SQLite DateTime columns as epoch milliseconds
+const BUCKET_EXPRESSIONS: Record<Granularity, Prisma.Sql> = {
+  hour: Prisma.raw(`strftime('%Y-%m-%dT%H:00:00Z', createdAt / 1000, 'unixepoch')`),
+  day: Prisma.raw(`strftime('%Y-%m-%d', createdAt / 1000, 'unixepoch')`),
+  // Monday of the ISO week
+  week: Prisma.raw(`date(createdAt / 1000, 'unixepoch', 'weekday 0', '-6 days')`),
+};
+
+async function getTimeSeries(linkId: string, { from, to, granularity, includeBots }: LinkAnalyticsOptions) {
+  const bucket = BUCKET_EXPRESSIONS[granularity];
+  const botFilter = includeBots ? Prisma.empty : Prisma.sql`AND isBot = false`;
+  const rows = await prisma.$queryRaw<{ bucket: string; clicks: bigint | number }[]>`
+    SELECT ${bucket} as bucket, COUNT(*) as clicks
+    FROM clicks
+    WHERE linkId = ${linkId}
+      AND createdAt >= ${from.getTime()}
+      AND createdAt <= ${to.getTime()}
+      ${botFilter}
+    GROUP BY bucket
+    ORDER BY bucket ASC
+  `;
+
+  return rows.map((row) => ({ bucket: row.bucket, clicks: Number(row.clicks) }));
+}
+
+async function getBreakdown(field: BreakdownField, where: Prisma.ClickWhereInput, limit: number) {
+  const groups = await prisma.click.groupBy({
+    by: [field],
+    where,
+    _count: { _all: true },
+  });
+
+  // Ranked here because ordering by a field's count in the query leaves out
+  // clicks without a value, which would push "Unknown" to the bottom
+  return groups
+    .map((group) => ({
+      value: group[field] ?? 'Unknown',
+      clicks: group._count._all,
+    }))
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, limit);
+}
+
+async function getRefererBreakdown(where: Prisma.ClickWhereInput, limit: number) {
+  const groups = await prisma.click.groupBy({
+    by: ['referer'],
+    where,
+    _count: { _all: true },
+  });
+
+  // Many full referer URLs share a domain, so merge them before ranking
+  const byDomain = new Map<string, number>();
+  for (const group of groups) {
+    const domain = group.referer ? getDomainFromUrl(group.referer) : 'Direct';
+    byDomain.set(domain, (byDomain.get(domain) ?? 0) + group._count._all);
+  }
+
+  return [...byDomain.entries()]
+    .map(([value, clicks]) => ({ value, clicks }))
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, limit);
+}
+
+// Lists every variant, including ones without clicks, so weights and
+// results can be compared side by side
+async function getVariantStats(linkId: string, where: Prisma.ClickWhereInput) {
+  const [variants, groups] = await Promise.all([
+    prisma.linkVariant.findMany({ where: { linkId }, orderBy: { createdAt: 'asc' } }),
+    prisma.click.groupBy({
+      by: ['variantId'],
+      where: { ...where, variantId: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const clicksByVariant = new Map(groups.map((group) => [group.variantId, group._count._all]));
+  const variantClicks = groups.reduce((sum, group) => sum + group._count._all, 0);
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  return variants.map((variant) => {
+    const clicks = clicksByVariant.get(variant.id) ?? 0;
+    return {
+      id: variant.id,
+      label: variant.label,
+      destinationUrl: variant.destinationUrl,
+      weight: variant.weight,
+      clicks,
+      share: variantClicks ? clicks / variantClicks : 0,
+      expectedShare: totalWeight ? variant.weight / totalWeight : 0,
+    };
+  });
+}
+
+export async function getLinkAnalytics(linkId: string, options: LinkAnalyticsOptions) {
+  const { from, to, granularity, limit, includeBots } = options;
+  const where: Prisma.ClickWhereInput = {
+    linkId,
+    createdAt: { gte: from, lte: to },
+    ...(!includeBots && { isBot: false }),
+  };
+
+  const [totalClicks, timeSeries, referers, countries, cities, devices, browsers, os, variants] = await Promise.all([
+    prisma.click.count({ where }),
+    getTimeSeries(linkId, options),
+    getRefererBreakdown(where, limit),
+    getBreakdown('country', where, limit),
+    getBreakdown('city', where, limit),
+    getBreakdown('device', where, limit),
+    getBreakdown('browser', where, limit),
+    getBreakdown('os', where, limit),
+    getVariantStats(linkId, where),
+  ]);
+
+  return {
+    linkId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    includeBots,
+    totalClicks,
+    timeSeries,
+    breakdowns: { referers, countries, cities, devices, browsers, os },
+    variants,
+  };
+}
@@ -0,0 +1,184 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { Request, Response, NextFunction } from 'express';
+import { nanoid } from 'nanoid';
+import { prisma } from './prisma.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      userId?: string;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const API_KEY_PREFIX = 'lsk_';
+const SESSION_COOKIE = 'linksly_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_KEY_LENGTH = 64;
+
+// Routes under /api that can be reached without credentials
+const PUBLIC_API_PATHS = ['/auth/signup', '/auth/login'];
+
+export function generateApiKey() {
+  return `${API_KEY_PREFIX}${nanoid(32)}`;
+}
+
+export function maskApiKey(key: string) {
+  return `${key.slice(0, API_KEY_PREFIX.length + 4)}…${key.slice(-4)}`;
+}
+
+export function getRequestApiKey(req: Request) {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.get('X-API-Key')?.trim();
+}
+
+function safeEqual(a: string | Buffer, b: string | Buffer) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex');
+  const derived = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt}$${derived.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const derived = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return safeEqual(derived, Buffer.from(hash, 'hex'));
+}
+
+export async function createSession(res: Response, userId: string) {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt,
+    },
+  });
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    expires: expiresAt,
+  });
+}
+
+export async function destroySession(req: Request, res: Response) {
+  const token: string | undefined = req.cookies?.[SESSION_COOKIE];
+  if (token) {
+    await prisma.session.deleteMany({
+      where: { tokenHash: hashToken(token) }
+    });
+  }
+  res.clearCookie(SESSION_COOKIE);
+}
+
+async function getSessionUserId(req: Request) {
+  const token: string | undefined = req.cookies?.[SESSION_COOKIE];
+  if (!token) {
+    return undefined;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!session || session.expiresAt < new Date()) {
+    return undefined;
+  }
+
+  return session.userId;
+}
+
+async function getApiKeyUserId(req: Request) {
+  const key = getRequestApiKey(req);
+  if (!key) {
+    return undefined;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { key }
+  });
+
+  // Keys without an owner predate user accounts and cannot be scoped until
+  // db:assign-orphans gives them one
+  if (!apiKey || !apiKey.isActive || !apiKey.userId) {
+    return undefined;
+  }
+
+  prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsed: new Date() }
+  }).catch((error) => console.error('Error updating API key usage:', error));
+
+  return apiKey.userId;
+}
+
+/**
+ * Resolves the caller from the session cookie or an API key and sets
+ * `req.userId`. Admin routes authenticate with ADMIN_API_KEY instead.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (req.path.startsWith('/admin/') || PUBLIC_API_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  try {
+    const userId = (await getSessionUserId(req)) ?? (await getApiKeyUserId(req));
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    req.userId = userId;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return res.status(503).json({ error: 'Admin API is not configured' });
+  }
+
+  const key = getRequestApiKey(req);
+  if (!key || !safeEqual(key, adminKey)) {
+    return res.status(401).json({ error: 'Admin credentials required' });
+  }
+
+  next();
+}
+
+/**
+ * Returns the authenticated user's id. Throws rather than returning
+ * undefined so a missing id can never widen a Prisma `where` filter.
+ */
+export function requireUserId(req: Request) {
+  if (!req.userId) {
+    throw new Error('Request is not authenticated');
+  }
+  return req.userId;
+}
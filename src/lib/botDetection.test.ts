@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+
+// Read when the module loads
+process.env.BOT_BURST_LIMIT = '3';
+process.env.BOT_BURST_WINDOW_MS = '100';
+const { isBotRequest } = await import('./botDetection.js');
+
+const BROWSER = {
+  method: 'GET',
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+  accept: 'text/html,application/xhtml+xml',
+};
+
+describe('isBotRequest', () => {
+  it('lets a browser through', () => {
+    assert.equal(isBotRequest({ ...BROWSER, ip: '203.0.113.1' }), false);
+  });
+
+  it('flags crawler and HTTP library User-Agents', () => {
+    assert.equal(isBotRequest({ ...BROWSER, userAgent: 'Googlebot/2.1' }), true);
+    assert.equal(isBotRequest({ ...BROWSER, userAgent: 'curl/8.4.0' }), true);
+    assert.equal(isBotRequest({ ...BROWSER, userAgent: undefined }), true);
+  });
+
+  it('flags HEAD requests and requests without an Accept header', () => {
+    assert.equal(isBotRequest({ ...BROWSER, method: 'HEAD' }), true);
+    assert.equal(isBotRequest({ ...BROWSER, accept: undefined }), true);
+  });
+
+  it('flags an IP once it follows more links than the burst limit allows', () => {
+    const ip = '203.0.113.2';
+    const results = Array.from({ length: 5 }, () => isBotRequest({ ...BROWSER, ip }));
+    assert.deepEqual(results, [false, false, false, true, true]);
+  });
+
+  it('counts bursts per IP', () => {
+    for (let i = 0; i < 4; i++) isBotRequest({ ...BROWSER, ip: '203.0.113.3' });
+    assert.equal(isBotRequest({ ...BROWSER, ip: '203.0.113.4' }), false);
+  });
+
+  it('forgets requests older than the burst window', async () => {
+    const ip = '203.0.113.5';
+    for (let i = 0; i < 4; i++) isBotRequest({ ...BROWSER, ip });
+    await sleep(150);
+    assert.equal(isBotRequest({ ...BROWSER, ip }), false);
+  });
+});
@@ -0,0 +1,44 @@
+import { isBotUserAgent } from './userAgent.js';
+
+const BURST_LIMIT = parseInt(process.env.BOT_BURST_LIMIT || '') || 20;
+const BURST_WINDOW_MS = parseInt(process.env.BOT_BURST_WINDOW_MS || '') || 10 * 1000;
+
+export interface ClickRequest {
+  method: string;
+  userAgent?: string;
+  accept?: string;
+  ip?: string;
+}
+
+// Recent redirect times per IP, newest last and capped at BURST_LIMIT + 1
+const recentRequests = new Map<string, number[]>();
+let lastPrunedAt = 0;
+
+function isBurst(ip: string, now: number) {
+  if (now - lastPrunedAt > BURST_WINDOW_MS) {
+    for (const [key, times] of recentRequests) {
+      if (now - times[times.length - 1] > BURST_WINDOW_MS) recentRequests.delete(key);
+    }
+    lastPrunedAt = now;
+  }
+
+  const times = (recentRequests.get(ip) ?? []).filter((time) => now - time < BURST_WINDOW_MS);
+  times.push(now);
+  recentRequests.set(ip, times.slice(-(BURST_LIMIT + 1)));
+  return times.length > BURST_LIMIT;
+}
+
+/**
+ * Classifies a redirect request as automated. Besides known crawler, scanner
+ * and HTTP library User-Agents, browsers never send HEAD requests for a
+ * link, always send an Accept header, and do not follow more than
+ * BOT_BURST_LIMIT short links from one IP within BOT_BURST_WINDOW_MS.
+ * Burst counts are kept in memory, so each server process sees only its own
+ * traffic.
+ */
+export function isBotRequest({ method, userAgent, accept, ip }: ClickRequest) {
+  // Every request counts towards the burst, including ones flagged otherwise
+  const burst = ip ? isBurst(ip, Date.now()) : false;
+
+  return burst || !userAgent || isBotUserAgent(userAgent) || method === 'HEAD' || !accept;
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+
+interface Row {
+  id: string;
+  isActive: boolean;
+  totalClicks: number;
+  botClicks: number;
+}
+
+// Stands in for the database; prisma.ts reuses a client found on globalThis.
+// Each UPDATE is applied in one step, as SQLite applies a single statement.
+const rows = new Map<string, Row>();
+(globalThis as { prisma?: unknown }).prisma = {
+  $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const query = Prisma.sql(strings, ...values);
+    assert.match(query.sql, /WHERE id = \?\s+AND isActive = true\s+AND totalClicks \+ botClicks < \?/);
+    const [id, limit] = query.values as [string, number];
+    const counter = /SET botClicks/.test(query.sql) ? 'botClicks' : 'totalClicks';
+
+    // Let concurrent claims interleave before any of them is applied
+    await new Promise((resolve) => setImmediate(resolve));
+    const row = rows.get(id);
+    if (!row || !row.isActive || row.totalClicks + row.botClicks >= limit) {
+      return 0;
+    }
+    row[counter]++;
+    if (/isActive = false/.test(query.sql)) {
+      row.isActive = false;
+    }
+    return 1;
+  },
+};
+
+const { claimLimitedClick, hasClickLimit } = await import('./clickLimit.js');
+
+function limitedLink(id: string, limits: { maxClicks?: number; singleUse?: boolean }) {
+  rows.set(id, { id, isActive: true, totalClicks: 0, botClicks: 0 });
+  return {
+    id,
+    domainId: null,
+    shortCode: id,
+    customAlias: null,
+    maxClicks: limits.maxClicks ?? null,
+    singleUse: limits.singleUse ?? false,
+  };
+}
+
+describe('hasClickLimit', () => {
+  it('is set by maxClicks or singleUse', () => {
+    assert.equal(hasClickLimit({ maxClicks: null, singleUse: false }), false);
+    assert.equal(hasClickLimit({ maxClicks: 5, singleUse: false }), true);
+    assert.equal(hasClickLimit({ maxClicks: null, singleUse: true }), true);
+  });
+});
+
+describe('claimLimitedClick', () => {
+  beforeEach(() => rows.clear());
+
+  it('lets exactly maxClicks concurrent clicks through', async () => {
+    const link = limitedLink('limited', { maxClicks: 3 });
+    const claims = await Promise.all(Array.from({ length: 10 }, () => claimLimitedClick(link)));
+    assert.equal(claims.filter(Boolean).length, 3);
+    assert.equal(rows.get('limited')?.totalClicks, 3);
+  });
+
+  it('lets one click through a single-use link and deactivates it', async () => {
+    const link = limitedLink('once', { singleUse: true });
+    const claims = await Promise.all(Array.from({ length: 5 }, () => claimLimitedClick(link)));
+    assert.deepEqual(claims.filter(Boolean), [true]);
+    assert.equal(rows.get('once')?.isActive, false);
+  });
+
+  it('counts bot clicks separately but against the same limit', async () => {
+    const link = limitedLink('mixed', { maxClicks: 2 });
+    assert.equal(await claimLimitedClick(link, { bot: true }), true);
+    assert.equal(await claimLimitedClick(link), true);
+    assert.equal(await claimLimitedClick(link), false);
+    assert.deepEqual(rows.get('mixed'), { id: 'mixed', isActive: true, totalClicks: 1, botClicks: 1 });
+  });
+
+  it('refuses links without a limit', async () => {
+    await assert.rejects(claimLimitedClick(limitedLink('open', {})), /has no click limit/);
+  });
+});
@@ -0,0 +1,40 @@
+import { Prisma, type Link } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { invalidateLink } from './linkCache.js';
+
+type LimitedLink = Pick<Link, 'id' | 'domainId' | 'shortCode' | 'customAlias' | 'maxClicks' | 'singleUse'>;
+
+export function hasClickLimit(link: Pick<Link, 'maxClicks' | 'singleUse'>) {
+  return link.singleUse || link.maxClicks !== null;
+}
+
+/**
+ * Counts a click against the link's limit with one conditional UPDATE, so
+ * concurrent redirects can never let more clicks through than the limit
+ * allows. The same statement deactivates single-use links. Resolves to
+ * false once the limit has been reached.
+ *
+ * Bot clicks go to botClicks but still use up the limit; otherwise any
+ * client could get past a single-use link by sending a crawler User-Agent.
+ */
+export async function claimLimitedClick(link: LimitedLink, { bot = false }: { bot?: boolean } = {}) {
+  const limit = link.singleUse ? 1 : link.maxClicks;
+  if (limit === null) {
+    throw new Error(`Link ${link.id} has no click limit`);
+  }
+
+  // The limit spans two columns, which Prisma's where filters cannot add up
+  const counter = Prisma.raw(bot ? 'botClicks' : 'totalClicks');
+  const count = await prisma.$executeRaw`
+    UPDATE links
+    SET ${counter} = ${counter} + 1${link.singleUse ? Prisma.sql`, isActive = false` : Prisma.empty}
+    WHERE id = ${link.id}
+      AND isActive = true
+      AND totalClicks + botClicks < ${limit}
+  `;
+
+  if (count && link.singleUse) {
+    invalidateLink(link);
+  }
+  return count > 0;
+}
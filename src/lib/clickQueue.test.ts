@@ -0,0 +1,134 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read when the module loads
+process.env.CLICK_QUEUE_MAX_SIZE = '4';
+process.env.CLICK_QUEUE_BATCH_SIZE = '3';
+
+type Operation =
+  | { createMany: { data: Record<string, unknown>[] } }
+  | { update: { where: { id: string }; data: { totalClicks: { increment: number }; botClicks: { increment: number } } } };
+
+// Stands in for the database; prisma.ts reuses a client found on globalThis.
+// Queries return descriptions of the writes, which $transaction records.
+const db = {
+  links: new Set(['link-a', 'link-b']),
+  rules: new Set(['rule-1']),
+  failWrites: false,
+  transactions: [] as Operation[][],
+};
+const findIds = (existing: Set<string>) => async ({ where }: { where: { id: { in: string[] } } }) =>
+  where.id.in.filter((id) => existing.has(id)).map((id) => ({ id }));
+
+(globalThis as { prisma?: unknown }).prisma = {
+  link: { findMany: findIds(db.links), update: (args: unknown) => ({ update: args }) },
+  redirectRule: { findMany: findIds(db.rules) },
+  linkVariant: { findMany: findIds(new Set()) },
+  click: { createMany: (args: unknown) => ({ createMany: args }) },
+  $transaction: async (operations: Operation[]) => {
+    if (db.failWrites) {
+      throw new Error('database is locked');
+    }
+    db.transactions.push(operations);
+  },
+};
+
+const { enqueueClick, flushClicks, drainClickQueue } = await import('./clickQueue.js');
+
+function writtenClicks() {
+  return db.transactions.flatMap((operations) =>
+    operations.flatMap((operation) => ('createMany' in operation ? operation.createMany.data : []))
+  );
+}
+
+function counterUpdates() {
+  return db.transactions.flatMap((operations) =>
+    operations.flatMap((operation) => ('update' in operation ? [operation.update] : []))
+  );
+}
+
+// Failed writes are logged on purpose in several tests
+console.error = () => undefined;
+
+describe('click queue', () => {
+  afterEach(async () => {
+    db.failWrites = false;
+    await drainClickQueue();
+    db.transactions = [];
+  });
+
+  it('writes a batch in one transaction and adds up clicks per link', async () => {
+    await enqueueClick({ linkId: 'link-a' });
+    await enqueueClick({ linkId: 'link-a', isBot: true });
+    await enqueueClick({ linkId: 'link-b' });
+    await flushClicks();
+
+    assert.equal(db.transactions.length, 1);
+    assert.equal(writtenClicks().length, 3);
+    assert.deepEqual(counterUpdates(), [
+      { where: { id: 'link-a' }, data: { totalClicks: { increment: 1 }, botClicks: { increment: 1 } } },
+      { where: { id: 'link-b' }, data: { totalClicks: { increment: 1 }, botClicks: { increment: 0 } } },
+    ]);
+  });
+
+  it('records clicks already counted by a limit claim without counting them again', async () => {
+    await enqueueClick({ linkId: 'link-a' }, { counted: true });
+    await flushClicks();
+
+    assert.equal(writtenClicks().length, 1);
+    assert.deepEqual(counterUpdates(), []);
+  });
+
+  it('drops clicks on deleted links and references to deleted rules', async () => {
+    await enqueueClick({ linkId: 'deleted' });
+    await enqueueClick({ linkId: 'link-a', redirectRuleId: 'rule-1' });
+    await enqueueClick({ linkId: 'link-a', redirectRuleId: 'deleted-rule' });
+    await flushClicks();
+
+    assert.deepEqual(
+      writtenClicks().map(({ linkId, redirectRuleId }) => ({ linkId, redirectRuleId })),
+      [
+        { linkId: 'link-a', redirectRuleId: 'rule-1' },
+        { linkId: 'link-a', redirectRuleId: null },
+      ]
+    );
+    assert.deepEqual(counterUpdates().map(({ where }) => where.id), ['link-a']);
+  });
+
+  it('puts a failed batch back and retries it on the next flush', async () => {
+    db.failWrites = true;
+    await enqueueClick({ linkId: 'link-a' });
+    await flushClicks();
+    assert.equal(db.transactions.length, 0);
+
+    db.failWrites = false;
+    await flushClicks();
+    assert.equal(writtenClicks().length, 1);
+  });
+
+  it('rejects clicks once the queue is full and cannot be written', async () => {
+    db.failWrites = true;
+    for (let i = 0; i < 4; i++) {
+      await enqueueClick({ linkId: 'link-a' });
+    }
+    // The third click started a flush; wait for its batch to be put back
+    await flushClicks();
+    await assert.rejects(enqueueClick({ linkId: 'link-a' }), /Click queue is full/);
+  });
+
+  it('makes a caller wait for a flush when the queue is full', async () => {
+    db.failWrites = true;
+    for (let i = 0; i < 4; i++) {
+      await enqueueClick({ linkId: 'link-a' });
+    }
+    // The third click started a flush; wait for its batch to be put back
+    await flushClicks();
+
+    db.failWrites = false;
+    await enqueueClick({ linkId: 'link-b' });
+    assert.equal(writtenClicks().length, 3);
+
+    await drainClickQueue();
+    assert.equal(writtenClicks().length, 5);
+  });
+});
@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+
+const MAX_QUEUE_SIZE = parseInt(process.env.CLICK_QUEUE_MAX_SIZE || '') || 10000;
+const BATCH_SIZE = parseInt(process.env.CLICK_QUEUE_BATCH_SIZE || '') || 500;
+const FLUSH_INTERVAL_MS = parseInt(process.env.CLICK_QUEUE_FLUSH_INTERVAL_MS || '') || 1000;
+
+interface QueuedClick {
+  data: Prisma.ClickCreateManyInput;
+  // Already added to totalClicks or botClicks by the redirect, e.g. by a click-limit claim
+  counted: boolean;
+}
+
+let queue: QueuedClick[] = [];
+let flushing: Promise<void> | null = null;
+let timer: NodeJS.Timeout | null = null;
+
+async function writeBatch(batch: QueuedClick[]) {
+  const linkIds = new Set(batch.map(({ data }) => data.linkId));
+  const clicksPerLink = new Map<string, { human: number; bot: number }>();
+  for (const { data, counted } of batch) {
+    if (!counted) {
+      const clicks = clicksPerLink.get(data.linkId) ?? { human: 0, bot: 0 };
+      clicks[data.isBot ? 'bot' : 'human']++;
+      clicksPerLink.set(data.linkId, clicks);
+    }
+  }
+
+  // Links deleted since the click was queued would fail the whole batch on the foreign key
+  const existingLinks = await prisma.link.findMany({
+    where: { id: { in: [...linkIds] } },
+    select: { id: true },
+  });
+  const existingIds = new Set(existingLinks.map((link) => link.id));
+  for (const linkId of clicksPerLink.keys()) {
+    if (!existingIds.has(linkId)) clicksPerLink.delete(linkId);
+  }
+
+  // Same for deleted redirect rules and variants, but those clicks are kept without them
+  const ruleIds = new Set(batch.flatMap(({ data }) => (data.redirectRuleId ? [data.redirectRuleId] : [])));
+  const variantIds = new Set(batch.flatMap(({ data }) => (data.variantId ? [data.variantId] : [])));
+  const [existingRules, existingVariants] = await Promise.all([
+    ruleIds.size
+      ? prisma.redirectRule.findMany({ where: { id: { in: [...ruleIds] } }, select: { id: true } })
+      : [],
+    variantIds.size
+      ? prisma.linkVariant.findMany({ where: { id: { in: [...variantIds] } }, select: { id: true } })
+      : [],
+  ]);
+  const existingRuleIds = new Set(existingRules.map((rule) => rule.id));
+  const existingVariantIds = new Set(existingVariants.map((variant) => variant.id));
+
+  await prisma.$transaction([
+    prisma.click.createMany({
+      data: batch
+        .filter(({ data }) => existingIds.has(data.linkId))
+        .map(({ data }) => ({
+          ...data,
+          redirectRuleId: data.redirectRuleId && existingRuleIds.has(data.redirectRuleId) ? data.redirectRuleId : null,
+          variantId: data.variantId && existingVariantIds.has(data.variantId) ? data.variantId : null,
+        })),
+    }),
+    ...[...clicksPerLink.entries()].map(([linkId, { human, bot }]) =>
+      prisma.link.update({
+        where: { id: linkId },
+        data: { totalClicks: { increment: human }, botClicks: { increment: bot } },
+      })
+    ),
+  ]);
+}
+
+async function flushOnce() {
+  const batch = queue.slice(0, BATCH_SIZE);
+  if (!batch.length) {
+    return;
+  }
+  queue = queue.slice(batch.length);
+
+  try {
+    await writeBatch(batch);
+  } catch (error) {
+    // Put the batch back so the next flush retries it
+    console.error(`Error writing ${batch.length} queued clicks:`, error);
+    queue = batch.concat(queue);
+    throw error;
+  }
+}
+
+/**
+ * Writes the next batch of queued clicks. Concurrent callers share the
+ * in-flight flush rather than starting another transaction.
+ */
+export function flushClicks() {
+  if (!flushing) {
+    flushing = flushOnce()
+      .catch(() => undefined)
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+/**
+ * Queues a click for the next batched write. Resolves immediately unless
+ * the queue is full, in which case the caller waits for a flush to make
+ * room, so sustained overload slows redirects instead of growing memory.
+ * Pass `counted` when totalClicks, or botClicks for a click flagged isBot,
+ * was already incremented for this click.
+ */
+export async function enqueueClick(click: Prisma.ClickCreateManyInput, options: { counted?: boolean } = {}) {
+  while (queue.length >= MAX_QUEUE_SIZE) {
+    const sizeBefore = queue.length;
+    await flushClicks();
+    if (queue.length >= sizeBefore) {
+      throw new Error('Click queue is full and the database is not accepting writes');
+    }
+  }
+
+  queue.push({
+    data: { ...click, createdAt: click.createdAt ?? new Date() },
+    counted: options.counted ?? false,
+  });
+
+  if (queue.length >= BATCH_SIZE) {
+    flushClicks();
+  }
+}
+
+export function startClickQueue() {
+  if (!timer) {
+    timer = setInterval(flushClicks, FLUSH_INTERVAL_MS);
+    timer.unref();
+  }
+}
+
+/**
+ * Stops the flush timer and writes everything still queued. Call before
+ * disconnecting Prisma on shutdown.
+ */
+export async function drainClickQueue() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  while (queue.length) {
+    const sizeBefore = queue.length;
+    await flushClicks();
+    if (queue.length >= sizeBefore) {
+      console.error(`Dropping ${queue.length} clicks that could not be written on shutdown`);
+      return;
+    }
+  }
+}
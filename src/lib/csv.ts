@@ -0,0 +1,74 @@
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and line
+ * breaks inside quotes. Returns one object per data row keyed by the
+ * header row; blank lines are skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...dataRows] = rows.filter((r) => r.some((value) => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim());
+  return dataRows.map((values) =>
+    Object.fromEntries(keys.map((key, index) => [key, values[index]?.trim() ?? '']))
+  );
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats one CSV cell. Strings that a spreadsheet would evaluate as a
+ * formula, such as a visitor's User-Agent or referer, get a leading
+ * apostrophe so they open as plain text.
+ */
+export function toCsvValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,80 @@
+import { resolveTxt } from 'dns/promises';
+import { nanoid } from 'nanoid';
+import { prisma } from './prisma.js';
+
+const TTL_MS = parseInt(process.env.DOMAIN_CACHE_TTL_MS || '') || 60 * 1000;
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+let hostnames: Map<string, string> | null = null;
+let loadedAt = 0;
+
+// Hostnames are stored and matched lowercase, without a trailing dot
+export function normalizeHostname(hostname: string) {
+  return hostname.trim().toLowerCase().replace(/\.$/, '');
+}
+
+export function isValidHostname(hostname: string) {
+  return HOSTNAME_PATTERN.test(hostname);
+}
+
+export function generateVerificationToken() {
+  return nanoid(32);
+}
+
+// Where the owner publishes `linksly-verification=<token>`
+export function getVerificationRecordName(hostname: string) {
+  return `_linksly-verification.${hostname}`;
+}
+
+/**
+ * Looks up the verification TXT record. A missing record or name is not an
+ * error; other DNS failures are thrown.
+ */
+export async function hasVerificationRecord(hostname: string, token: string) {
+  let records: string[][];
+  try {
+    records = await resolveTxt(getVerificationRecordName(hostname));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      return false;
+    }
+    throw error;
+  }
+  // Long TXT values arrive split into chunks
+  return records.some((chunks) => chunks.join('').trim() === `linksly-verification=${token}`);
+}
+
+// Verified domains are few and read on every redirect, so they are kept in
+// memory and reloaded when stale or changed
+async function loadHostnames() {
+  if (!hostnames || Date.now() - loadedAt > TTL_MS) {
+    const domains = await prisma.domain.findMany({
+      where: { verifiedAt: { not: null } },
+      select: { id: true, hostname: true },
+    });
+    hostnames = new Map(domains.map((domain) => [domain.hostname, domain.id]));
+    loadedAt = Date.now();
+  }
+  return hostnames;
+}
+
+/**
+ * Maps a request hostname to the custom domain serving it. Any other host,
+ * including localhost and the deployment's own name, is the default host
+ * and resolves to null.
+ */
+export async function resolveDomainId(hostname: string) {
+  return (await loadHostnames()).get(normalizeHostname(hostname)) ?? null;
+}
+
+// Every verified custom hostname, across all users
+export async function getCustomHostnames() {
+  return [...(await loadHostnames()).keys()];
+}
+
+// Call after a domain is verified or removed
+export function invalidateDomains() {
+  hostnames = null;
+}
@@ -0,0 +1,127 @@
+import { once } from 'events';
+import type { Response } from 'express';
+import { toCsvValue } from './csv.js';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const LINK_EXPORT_FIELDS = [
+  'id',
+  'domainId',
+  'shortCode',
+  'customAlias',
+  'originalUrl',
+  'title',
+  'description',
+  'faviconUrl',
+  'imageUrl',
+  'ogTitle',
+  'ogDescription',
+  'ogImageUrl',
+  'isActive',
+  'fallbackUrl',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'utmTerm',
+  'utmContent',
+  'totalClicks',
+  'botClicks',
+  'totalPreviews',
+  'maxClicks',
+  'singleUse',
+  'forwardQuery',
+  'forwardPath',
+  'redirectType',
+  'forcePreview',
+  'createdAt',
+  'updatedAt',
+  'activeFrom',
+  'expiresAt',
+] as const;
+
+export const CLICK_EXPORT_FIELDS = [
+  'id',
+  'linkId',
+  'createdAt',
+  'ip',
+  'userAgent',
+  'referer',
+  'country',
+  'city',
+  'device',
+  'browser',
+  'os',
+  'isBot',
+  'redirectRuleId',
+  'variantId',
+] as const;
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Parses a comma-separated `fields` query value against the allowed
+ * columns. Returns every allowed column when none are requested.
+ */
+export function parseExportFields<T extends string>(allowed: readonly T[], requested?: string) {
+  if (!requested) {
+    return { fields: [...allowed] };
+  }
+
+  const fields = requested.split(',').map((field) => field.trim()).filter(Boolean);
+  const unknown = fields.filter((field) => !allowed.includes(field as T));
+  if (unknown.length) {
+    return { error: `Unknown export fields: ${unknown.join(', ')}` };
+  }
+  return { fields: fields as T[] };
+}
+
+/**
+ * Streams rows to the response one cursor-paginated batch at a time so a
+ * large export never has to fit in memory. `fetchBatch` receives the id of
+ * the last row written and returns the next page ordered by id.
+ */
+export async function streamExport<T extends { id: string }>(
+  res: Response,
+  options: {
+    format: ExportFormat;
+    fields: readonly string[];
+    filename: string;
+    fetchBatch: (cursor: string | undefined, take: number) => Promise<T[]>;
+  }
+) {
+  const { format, fields, filename, fetchBatch } = options;
+
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format === 'csv' ? 'csv' : 'ndjson'}"`);
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) {
+      await Promise.race([once(res, 'drain'), once(res, 'close')]);
+    }
+  };
+
+  if (format === 'csv') {
+    await write(`${fields.join(',')}\n`);
+  }
+
+  let cursor: string | undefined;
+  while (!res.destroyed) {
+    const batch = await fetchBatch(cursor, BATCH_SIZE);
+    if (!batch.length) {
+      break;
+    }
+
+    const lines = batch.map((row) => {
+      const record = row as Record<string, unknown>;
+      if (format === 'csv') {
+        return fields.map((field) => toCsvValue(record[field])).join(',');
+      }
+      return JSON.stringify(Object.fromEntries(fields.map((field) => [field, record[field] ?? null])));
+    });
+    await write(`${lines.join('\n')}\n`);
+
+    cursor = batch[batch.length - 1].id;
+  }
+
+  res.end();
+}
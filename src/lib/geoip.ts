@@ -0,0 +1,53 @@
+import maxmind, { CityResponse, Reader } from 'maxmind';
+
+export interface GeoLocation {
+  country: string | null;
+  // First-level subdivision code, e.g. "CA" for California
+  region: string | null;
+  city: string | null;
+}
+
+let reader: Reader<CityResponse> | null = null;
+
+/**
+ * Opens the local MMDB database (GeoLite2-City or compatible) named by
+ * GEOIP_DB_PATH. Lookups never touch the network; without a configured or
+ * readable database they are disabled and return null.
+ */
+export async function initGeoIp(databasePath = process.env.GEOIP_DB_PATH) {
+  if (!databasePath) {
+    console.log('GeoIP lookup disabled: GEOIP_DB_PATH is not set');
+    return;
+  }
+
+  try {
+    reader = await maxmind.open<CityResponse>(databasePath, { watchForUpdates: true, watchForUpdatesNonPersistent: true });
+    console.log(`GeoIP database loaded from ${databasePath}`);
+  } catch (error) {
+    reader = null;
+    console.warn(`GeoIP lookup disabled: could not open ${databasePath}:`, error);
+  }
+}
+
+export function lookupGeo(ip?: string | null): GeoLocation | null {
+  if (!reader || !ip) {
+    return null;
+  }
+
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+  const address = ip.startsWith('::ffff:') ? ip.slice('::ffff:'.length) : ip;
+  if (!maxmind.validate(address)) {
+    return null;
+  }
+
+  const result = reader.get(address);
+  if (!result) {
+    return null;
+  }
+
+  return {
+    country: result.country?.iso_code ?? result.registered_country?.iso_code ?? null,
+    region: result.subdivisions?.[0]?.iso_code ?? null,
+    city: result.city?.names.en ?? null,
+  };
+}
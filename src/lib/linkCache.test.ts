@@ -0,0 +1,99 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+
+// Read when the module loads
+process.env.LINK_CACHE_SIZE = '2';
+process.env.LINK_CACHE_TTL_MS = '100';
+process.env.LINK_CACHE_NOT_FOUND_TTL_MS = '100';
+
+// Stands in for the database; prisma.ts reuses a client found on globalThis
+const links = new Map<string, { id: string; domainId: string | null; shortCode: string; customAlias: string | null }>();
+let queries = 0;
+(globalThis as { prisma?: unknown }).prisma = {
+  link: {
+    findFirst: async ({ where }: { where: { domainId: string | null; OR: [{ shortCode: string }] } }) => {
+      queries++;
+      const link = links.get(where.OR[0].shortCode);
+      return link && link.domainId === where.domainId ? { ...link, redirectRules: [], variants: [] } : null;
+    },
+  },
+};
+
+const { resolveShortCode, invalidateLink, getLinkCacheStats } = await import('./linkCache.js');
+
+function addLink(shortCode: string, domainId: string | null = null) {
+  const link = { id: `id-${shortCode}`, domainId, shortCode, customAlias: null };
+  links.set(shortCode, link);
+  return link;
+}
+
+describe('resolveShortCode', () => {
+  beforeEach(async () => {
+    links.clear();
+    // Let everything cached by the previous test expire
+    await sleep(120);
+    queries = 0;
+  });
+
+  it('serves repeat lookups from memory', async () => {
+    addLink('abc');
+    assert.equal((await resolveShortCode(null, 'abc'))?.id, 'id-abc');
+    assert.equal((await resolveShortCode(null, 'abc'))?.id, 'id-abc');
+    assert.equal(queries, 1);
+  });
+
+  it('caches codes per domain', async () => {
+    addLink('abc', 'domain-1');
+    assert.equal(await resolveShortCode(null, 'abc'), null);
+    assert.equal((await resolveShortCode('domain-1', 'abc'))?.id, 'id-abc');
+    assert.equal(queries, 2);
+  });
+
+  it('caches "not found" until it expires', async () => {
+    assert.equal(await resolveShortCode(null, 'new'), null);
+    addLink('new');
+    assert.equal(await resolveShortCode(null, 'new'), null);
+    await sleep(120);
+    assert.equal((await resolveShortCode(null, 'new'))?.id, 'id-new');
+    assert.equal(queries, 2);
+  });
+
+  it('reloads a link once its entry expires', async () => {
+    addLink('abc');
+    await resolveShortCode(null, 'abc');
+    await sleep(120);
+    await resolveShortCode(null, 'abc');
+    assert.equal(queries, 2);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    addLink('a');
+    addLink('b');
+    addLink('c');
+
+    // Fills the cache, pushing out entries left by earlier tests
+    await resolveShortCode(null, 'a');
+    await resolveShortCode(null, 'b');
+    const evictions = getLinkCacheStats().evictions;
+
+    // Reading "a" makes "b" the least recently used
+    await resolveShortCode(null, 'a');
+    await resolveShortCode(null, 'c');
+    assert.equal(getLinkCacheStats().evictions, evictions + 1);
+    assert.equal(queries, 3);
+
+    await resolveShortCode(null, 'a');
+    assert.equal(queries, 3);
+    await resolveShortCode(null, 'b');
+    assert.equal(queries, 4);
+  });
+
+  it('looks a link up again after it is invalidated', async () => {
+    const link = addLink('abc');
+    await resolveShortCode(null, 'abc');
+    invalidateLink(link);
+    await resolveShortCode(null, 'abc');
+    assert.equal(queries, 2);
+  });
+});
@@ -0,0 +1,99 @@
+import type { Link, Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+
+const MAX_SIZE = parseInt(process.env.LINK_CACHE_SIZE || '') || 1000;
+const TTL_MS = parseInt(process.env.LINK_CACHE_TTL_MS || '') || 60 * 1000;
+const NOT_FOUND_TTL_MS = parseInt(process.env.LINK_CACHE_NOT_FOUND_TTL_MS || '') || 5 * 1000;
+
+const RESOLVE_INCLUDE = {
+  redirectRules: { orderBy: { createdAt: 'asc' } },
+  variants: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.LinkInclude;
+
+export type ResolvedLink = Prisma.LinkGetPayload<{ include: typeof RESOLVE_INCLUDE }>;
+
+interface CacheEntry {
+  link: ResolvedLink | null;
+  expiresAt: number;
+}
+
+// A Map iterates in insertion order, so re-inserting on read keeps the
+// least recently used entry first
+const cache = new Map<string, CacheEntry>();
+const stats = { hits: 0, misses: 0, notFoundHits: 0, evictions: 0 };
+
+// Codes are unique per domain, and "/" never appears in a code
+function cacheKey(domainId: string | null, code: string) {
+  return `${domainId ?? ''}/${code}`;
+}
+
+function set(key: string, link: ResolvedLink | null) {
+  cache.delete(key);
+  cache.set(key, { link, expiresAt: Date.now() + (link ? TTL_MS : NOT_FOUND_TTL_MS) });
+
+  if (cache.size > MAX_SIZE) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) {
+      cache.delete(oldest);
+      stats.evictions++;
+    }
+  }
+}
+
+/**
+ * Looks up a link with its redirect rules and variants by short code or
+ * custom alias on a domain (null for the default host), serving repeat
+ * lookups from memory. "Not found" results
+ * are cached briefly as well. Inactive links are returned too so the
+ * redirect can send visitors to their fallback URL; callers must check
+ * `isActive` themselves.
+ */
+export async function resolveShortCode(domainId: string | null, code: string) {
+  const key = cacheKey(domainId, code);
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    cache.delete(key);
+    cache.set(key, entry);
+    stats.hits++;
+    if (!entry.link) stats.notFoundHits++;
+    return entry.link;
+  }
+
+  stats.misses++;
+  const link = await prisma.link.findFirst({
+    where: {
+      domainId,
+      OR: [
+        { shortCode: code },
+        { customAlias: code }
+      ]
+    },
+    include: RESOLVE_INCLUDE,
+  });
+
+  set(key, link);
+  return link;
+}
+
+/**
+ * Drops cached lookups for a link. Call after any write that changes
+ * whether or where a code resolves, including its rules and variants.
+ */
+export function invalidateLink(link: Pick<Link, 'domainId' | 'shortCode' | 'customAlias'>) {
+  cache.delete(cacheKey(link.domainId, link.shortCode));
+  if (link.customAlias) {
+    cache.delete(cacheKey(link.domainId, link.customAlias));
+  }
+}
+
+export function getLinkCacheStats() {
+  const lookups = stats.hits + stats.misses;
+  return {
+    ...stats,
+    size: cache.size,
+    maxSize: MAX_SIZE,
+    ttlMs: TTL_MS,
+    notFoundTtlMs: NOT_FOUND_TTL_MS,
+    hitRate: lookups ? stats.hits / lookups : 0,
+  };
+}
@@ -0,0 +1,53 @@
+import type { Request, Response } from 'express';
+import { prisma } from './prisma.js';
+
+const UNLOCK_TTL_MS = 10 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+function unlockCookieName(linkId: string) {
+  return `linksly_unlock_${linkId}`;
+}
+
+/**
+ * Unlock cookies are signed by cookie-parser and hold their own expiry, so
+ * a tampered or stale cookie never opens the link. They cover both the
+ * short link and its preview page.
+ */
+export function hasUnlockCookie(req: Request, linkId: string) {
+  const expiresAt = Number(req.signedCookies?.[unlockCookieName(linkId)]);
+  return Number.isFinite(expiresAt) && expiresAt > Date.now();
+}
+
+export function setUnlockCookie(res: Response, linkId: string) {
+  const expiresAt = Date.now() + UNLOCK_TTL_MS;
+  res.cookie(unlockCookieName(linkId), String(expiresAt), {
+    signed: true,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: UNLOCK_TTL_MS,
+  });
+}
+
+export async function isUnlockRateLimited(linkId: string, ip?: string) {
+  const failedAttempts = await prisma.unlockAttempt.count({
+    where: {
+      linkId,
+      ip: ip ?? null,
+      createdAt: { gte: new Date(Date.now() - FAILED_ATTEMPT_WINDOW_MS) },
+    },
+  });
+  return failedAttempts >= MAX_FAILED_ATTEMPTS;
+}
+
+export async function recordFailedUnlock(linkId: string, req: Request) {
+  await prisma.unlockAttempt.create({
+    data: {
+      linkId,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+}
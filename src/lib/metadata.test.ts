@@ -0,0 +1,90 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHttpFetcher } from './metadata.js';
+
+const PAGE_HEAD = '<html><head><title>Example</title></head><body>';
+
+// Routes of a local site that misbehaves in the ways a destination can
+function startServer() {
+  const server = createServer((req, res) => {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    switch (pathname) {
+      case '/page':
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        return res.end(`${PAGE_HEAD}Hello</body></html>`);
+      case '/slow':
+        // Sends headers, then never finishes the body
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        return res.write(PAGE_HEAD);
+      case '/large':
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.write(PAGE_HEAD);
+        return res.end('x'.repeat(1024 * 1024));
+      case '/redirect': {
+        const hops = Number(searchParams.get('hops'));
+        res.writeHead(302, { Location: hops > 1 ? `/redirect?hops=${hops - 1}` : '/page' });
+        return res.end();
+      }
+      default:
+        res.writeHead(404);
+        return res.end();
+    }
+  });
+
+  return new Promise<Server>((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('createHttpFetcher', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = await startServer();
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('fetches a page', async () => {
+    const fetcher = createHttpFetcher({ allowPrivateNetworks: true });
+    const page = await fetcher(`${baseUrl}/page`);
+    assert.equal(page?.url, `${baseUrl}/page`);
+    assert.match(page?.html ?? '', /<title>Example<\/title>/);
+  });
+
+  it('gives up on a response that takes longer than the timeout', async () => {
+    const fetcher = createHttpFetcher({ allowPrivateNetworks: true, timeoutMs: 200 });
+    const startedAt = Date.now();
+    await assert.rejects(fetcher(`${baseUrl}/slow`), { name: 'TimeoutError' });
+    assert.ok(Date.now() - startedAt < 2000);
+  });
+
+  it('reads no more of the body than the size cap', async () => {
+    const fetcher = createHttpFetcher({ allowPrivateNetworks: true, maxBytes: 1024 });
+    const page = await fetcher(`${baseUrl}/large`);
+    assert.equal(page?.html.length, 1024);
+    assert.ok(page?.html.startsWith(PAGE_HEAD));
+  });
+
+  it('follows redirects up to the limit', async () => {
+    const fetcher = createHttpFetcher({ allowPrivateNetworks: true, maxRedirects: 3 });
+    const page = await fetcher(`${baseUrl}/redirect?hops=3`);
+    assert.equal(page?.url, `${baseUrl}/page`);
+  });
+
+  it('rejects a redirect chain longer than the limit', async () => {
+    const fetcher = createHttpFetcher({ allowPrivateNetworks: true, maxRedirects: 3 });
+    await assert.rejects(fetcher(`${baseUrl}/redirect?hops=4`), /Too many redirects/);
+  });
+
+  it('refuses private addresses unless allowed', async () => {
+    const fetcher = createHttpFetcher();
+    await assert.rejects(fetcher(`${baseUrl}/page`), /Refusing to fetch private address/);
+  });
+});
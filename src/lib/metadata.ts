@@ -0,0 +1,211 @@
+import { isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { isPrivateAddress } from './urlPolicy.js';
+
+export interface LinkMetadata {
+  title: string | null;
+  description: string | null;
+  faviconUrl: string | null;
+  imageUrl: string | null;
+}
+
+export interface FetchedPage {
+  // Final URL after redirects, used to resolve relative favicon and image URLs
+  url: string;
+  html: string;
+}
+
+/**
+ * Loads a page's HTML. Resolves to null for anything that is not an HTML
+ * page; rejects on network errors, timeouts and redirect loops.
+ */
+export type PageFetcher = (url: string) => Promise<FetchedPage | null>;
+
+export interface HttpFetcherOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  // Only for tests against a local server; never enable for user input
+  allowPrivateNetworks?: boolean;
+}
+
+// Keeps the server from being used to reach internal services. A hostname
+// is checked once before the request, so DNS rebinding is not covered.
+async function assertPublicHost(url: URL) {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch private address for ${url.hostname}`);
+  }
+}
+
+async function readBody(response: Response, maxBytes: number) {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  // Everything we need is in <head>; the rest of a large page is dropped
+  await reader.cancel().catch(() => undefined);
+
+  const body = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, body.byteLength - offset);
+    body.set(part, offset);
+    offset += part.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+/**
+ * Fetches over HTTP(S) with a timeout covering the whole request, a cap on
+ * how much of the body is read and a limit on followed redirects.
+ */
+export function createHttpFetcher(options: HttpFetcherOptions = {}): PageFetcher {
+  const { timeoutMs = 5000, maxBytes = 512 * 1024, maxRedirects = 5, allowPrivateNetworks = false } = options;
+
+  return async (startUrl) => {
+    const signal = AbortSignal.timeout(timeoutMs);
+    let url = new URL(startUrl);
+
+    for (let redirects = 0; ; redirects++) {
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return null;
+      }
+      if (!allowPrivateNetworks) {
+        await assertPublicHost(url);
+      }
+
+      const response = await fetch(url, {
+        redirect: 'manual',
+        signal,
+        headers: {
+          Accept: 'text/html,application/xhtml+xml',
+          'User-Agent': 'LinkslyBot/1.0 (+link metadata preview)',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= maxRedirects) {
+          throw new Error(`Too many redirects fetching ${startUrl}`);
+        }
+        url = new URL(location, url);
+        continue;
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!response.ok || !/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+        await response.body?.cancel();
+        return null;
+      }
+
+      return { url: url.toString(), html: await readBody(response, maxBytes) };
+    }
+  };
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function clean(value: string | undefined, maxLength: number) {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, maxLength) : null;
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string) {
+  if (!value) {
+    return null;
+  }
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the title, description, favicon and preview image from a page's
+ * HTML. Open Graph tags win over Twitter tags, which win over <title> and
+ * the plain description meta tag. Without an icon link the site's
+ * /favicon.ico is assumed.
+ */
+export function parseMetadata(html: string, pageUrl: string): LinkMetadata {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let iconHref: string | undefined;
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rel = attributes.rel?.toLowerCase().split(/\s+/) ?? [];
+    if (rel.includes('icon') || rel.includes('apple-touch-icon')) {
+      iconHref = attributes.href;
+      if (rel.includes('icon')) break;
+    }
+  }
+
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  return {
+    title: clean(meta['og:title'] ?? meta['twitter:title'] ?? (titleTag && decodeEntities(titleTag)), 300),
+    description: clean(meta['og:description'] ?? meta['twitter:description'] ?? meta['description'], 1000),
+    faviconUrl: resolveUrl(iconHref ?? '/favicon.ico', pageUrl),
+    imageUrl: resolveUrl(meta['og:image'] ?? meta['og:image:url'] ?? meta['twitter:image'], pageUrl),
+  };
+}
+
+let defaultFetcher: PageFetcher = createHttpFetcher();
+
+// Swaps the fetcher used by fetchLinkMetadata, e.g. for a local test server
+export function setPageFetcher(fetcher: PageFetcher) {
+  defaultFetcher = fetcher;
+}
+
+/**
+ * Fetches a destination page and extracts its metadata. Resolves to null
+ * when the page cannot be fetched or is not HTML; failures are logged
+ * rather than thrown so link creation never depends on a third-party site.
+ */
+export async function fetchLinkMetadata(url: string, fetcher: PageFetcher = defaultFetcher) {
+  try {
+    const page = await fetcher(url);
+    return page ? parseMetadata(page.html, page.url) : null;
+  } catch (error) {
+    console.warn(`Could not fetch metadata for ${url}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,176 @@
+// Small server-rendered pages shown on /s/:shortCode instead of a redirect
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderPage(title: string, body: string, head = '') {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+${head}
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, -apple-system, sans-serif; background: linear-gradient(135deg, #f5f3ff, #ecfeff); color: #1f2937; }
+  main { width: 100%; max-width: 420px; margin: 1rem; padding: 2rem; background: #fff; border-radius: 12px; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.08); }
+  h1 { margin: 0 0 0.5rem; font-size: 1.25rem; }
+  p { margin: 0 0 1rem; color: #4b5563; overflow-wrap: anywhere; }
+  input { width: 100%; box-sizing: border-box; padding: 0.75rem; margin-bottom: 1rem; border: 1px solid #d1d5db; border-radius: 8px; font-size: 1rem; }
+  button, .button { display: inline-block; width: 100%; box-sizing: border-box; padding: 0.75rem; border: 0; border-radius: 8px; background: linear-gradient(90deg, #7c3aed, #2563eb); color: #fff; font-size: 1rem; text-align: center; text-decoration: none; cursor: pointer; }
+  .error { color: #dc2626; }
+  .destination { padding: 0.75rem; background: #f3f4f6; border-radius: 8px; font-family: ui-monospace, monospace; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+}
+
+// The form posts back to the URL the visitor opened, so a forwarded path
+// suffix and query string survive unlocking
+export function renderUnlockPage(options: { action: string; error?: string }) {
+  const { action, error } = options;
+  return renderPage(
+    'Password required',
+    `<h1>This link is password protected</h1>
+<p>Enter the password to continue.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post" action="${escapeHtml(action)}">
+  <input type="password" name="password" placeholder="Password" autofocus required>
+  <button type="submit">Unlock</button>
+</form>`
+  );
+}
+
+/**
+ * Open Graph and Twitter card tags for link-unfurling crawlers. og:url is
+ * the short link itself so crawlers do not go on to the destination; the
+ * body is only for a person whose browser was mistaken for a crawler.
+ */
+export function renderSocialCardPage(options: {
+  shortUrl: string;
+  continueUrl: string;
+  title?: string | null;
+  description?: string | null;
+  imageUrl?: string | null;
+}) {
+  const { shortUrl, continueUrl, title, description, imageUrl } = options;
+  const tags: [string, string | null | undefined][] = [
+    ['og:type', 'website'],
+    ['og:url', shortUrl],
+    ['og:title', title],
+    ['og:description', description],
+    ['og:image', imageUrl],
+    ['twitter:card', imageUrl ? 'summary_large_image' : 'summary'],
+    ['twitter:title', title],
+    ['twitter:description', description],
+    ['twitter:image', imageUrl],
+  ];
+  const head = tags
+    .filter((tag): tag is [string, string] => !!tag[1])
+    .map(([key, content]) => `<meta ${key.startsWith('og:') ? 'property' : 'name'}="${key}" content="${escapeHtml(content)}">`)
+    .join('\n');
+
+  return renderPage(
+    title || 'Shared link',
+    `<h1>${escapeHtml(title || 'Shared link')}</h1>
+${description ? `<p>${escapeHtml(description)}</p>` : ''}
+<p><a class="button" href="${escapeHtml(continueUrl)}">Open link</a></p>`,
+    head
+  );
+}
+
+/**
+ * Shows where a short link goes before the visitor commits to it. The
+ * destination is the link's own; when rules or variants can send a visitor
+ * elsewhere the page says so rather than guessing.
+ */
+export function renderPreviewPage(options: {
+  // Null for links whose destination is only revealed by using them up
+  destinationUrl: string | null;
+  continueUrl: string;
+  title?: string | null;
+  description?: string | null;
+  variesByVisitor: boolean;
+}) {
+  const { destinationUrl, continueUrl, title, description, variesByVisitor } = options;
+  if (destinationUrl === null) {
+    return renderPage(
+      'Link preview',
+      `<h1>This link can only be used a limited number of times</h1>
+${title ? `<p><strong>${escapeHtml(title)}</strong></p>` : ''}
+${description ? `<p>${escapeHtml(description)}</p>` : ''}
+<p>Its destination is shown once you continue, and continuing counts as a use.</p>
+<p><a class="button" href="${escapeHtml(continueUrl)}">Continue</a></p>`
+    );
+  }
+
+  let hostname = destinationUrl;
+  try {
+    hostname = new URL(destinationUrl).hostname;
+  } catch {
+    // Shown as-is
+  }
+
+  return renderPage(
+    'Link preview',
+    `<h1>You are about to visit ${escapeHtml(hostname)}</h1>
+${title ? `<p><strong>${escapeHtml(title)}</strong></p>` : ''}
+${description ? `<p>${escapeHtml(description)}</p>` : ''}
+<p>This link goes to:</p>
+<p class="destination">${escapeHtml(destinationUrl)}</p>
+${variesByVisitor ? '<p>Depending on your device or location you may be sent to a different page.</p>' : ''}
+<p><a class="button" href="${escapeHtml(continueUrl)}">Continue</a></p>`
+  );
+}
+
+// Sends the visitor on from an HTML page instead of a 3xx status
+export function renderRedirectPage(options: { url: string }) {
+  const { url } = options;
+  return renderPage(
+    'Redirecting',
+    `<h1>Redirecting…</h1>
+<p><a href="${escapeHtml(url)}">Continue to ${escapeHtml(url)}</a></p>`,
+    `<meta http-equiv="refresh" content="0;url=${escapeHtml(url)}">`
+  );
+}
+
+// JSON is valid JavaScript, but "</script>" inside a string would still end the tag
+function toScriptLiteral(value: string) {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Tries to open the app through its URL scheme and falls back to the web
+ * URL when the page is still visible shortly after. The inline script needs
+ * a CSP nonce, so the caller must send a matching Content-Security-Policy.
+ */
+export function renderDeepLinkPage(options: { deepLinkUrl: string; webUrl: string; nonce: string }) {
+  const { deepLinkUrl, webUrl, nonce } = options;
+  return renderPage(
+    'Opening app',
+    `<h1>Opening the app…</h1>
+<p>If nothing happens, choose how to continue.</p>
+<p><a class="button" href="${escapeHtml(deepLinkUrl)}">Open in app</a></p>
+<p><a href="${escapeHtml(webUrl)}">Continue to website</a></p>
+<script nonce="${escapeHtml(nonce)}">
+  var fallback = setTimeout(function () { window.location.replace(${toScriptLiteral(webUrl)}); }, 1500);
+  document.addEventListener('visibilitychange', function () {
+    if (document.hidden) clearTimeout(fallback);
+  });
+  window.location.href = ${toScriptLiteral(deepLinkUrl)};
+</script>`,
+    `<noscript><meta http-equiv="refresh" content="0;url=${escapeHtml(webUrl)}"></noscript>`
+  );
+}
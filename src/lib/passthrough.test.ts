@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPassthrough } from './passthrough.js';
+
+describe('applyPassthrough', () => {
+  it('returns the destination unchanged when there is nothing to forward', () => {
+    assert.equal(applyPassthrough('https://example.com/a?b=1', {}), 'https://example.com/a?b=1');
+  });
+
+  it('appends the path suffix with exactly one slash', () => {
+    assert.equal(applyPassthrough('https://example.com/docs/', { path: 'guide/intro' }), 'https://example.com/docs/guide/intro');
+    assert.equal(applyPassthrough('https://example.com/docs', { path: '/guide//intro' }), 'https://example.com/docs/guide/intro');
+  });
+
+  it('drops dot segments from the path suffix', () => {
+    assert.equal(applyPassthrough('https://example.com/docs', { path: '../%2e%2E/admin' }), 'https://example.com/docs/admin');
+  });
+
+  it('adds incoming parameters after the destination\'s own', () => {
+    assert.equal(applyPassthrough('https://example.com/?a=1', { query: 'b=2&c=3' }), 'https://example.com/?a=1&b=2&c=3');
+  });
+
+  it('never overwrites a key the destination already has', () => {
+    assert.equal(
+      applyPassthrough('https://example.com/?utm_source=newsletter', { query: 'utm_source=spam&ref=x' }),
+      'https://example.com/?utm_source=newsletter&ref=x'
+    );
+  });
+
+  it('keeps every value of a repeated incoming key', () => {
+    assert.equal(applyPassthrough('https://example.com/', { query: 'tag=a&tag=b' }), 'https://example.com/?tag=a&tag=b');
+  });
+
+  it('leaves the destination\'s query and the incoming pairs encoded as written', () => {
+    assert.equal(
+      applyPassthrough('https://example.com/?q=a%20b&flag&sig=x+y', { query: 'name=J%C3%BCrgen+K' }),
+      'https://example.com/?q=a%20b&flag&sig=x+y&name=J%C3%BCrgen+K'
+    );
+  });
+
+  it('keeps the destination\'s fragment after the query', () => {
+    assert.equal(applyPassthrough('https://example.com/a#top', { path: 'b', query: 'c=1' }), 'https://example.com/a/b?c=1#top');
+  });
+});
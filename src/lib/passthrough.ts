@@ -0,0 +1,53 @@
+export interface PassthroughOptions {
+  // Still percent-encoded, as it appeared in the request
+  path?: string;
+  query?: string;
+}
+
+// "." and ".." would let a suffix climb above the destination's own path
+const DOT_SEGMENT = /^(\.|%2e){1,2}$/i;
+
+/**
+ * Forwards what a visitor added after the short code to the destination.
+ *
+ * - Path: the suffix is appended to the destination path with exactly one
+ *   slash between them. Dot segments are dropped.
+ * - Query: incoming parameters are added, as written, after the
+ *   destination's own, which are left exactly as they were. A key the
+ *   destination already has, including its UTM parameters, is never
+ *   overwritten; every value of a repeated incoming key is kept.
+ * - Fragment: the destination's fragment is kept. Browsers never send
+ *   fragments, but they carry the visitor's fragment over on redirect
+ *   when the destination has none.
+ */
+export function applyPassthrough(destination: string, { path, query }: PassthroughOptions) {
+  const segments = (path ?? '').split('/').filter((segment) => segment && !DOT_SEGMENT.test(segment));
+  const incoming = new URLSearchParams(query ?? '');
+  if (!segments.length && !incoming.size) {
+    return destination;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    return destination;
+  }
+
+  if (segments.length) {
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/${segments.join('/')}`;
+  }
+
+  // Pairs are copied as written and appended to the raw query, since going
+  // through searchParams would re-encode the destination's own parameters
+  const existingKeys = new Set(url.searchParams.keys());
+  const pairs = (query ?? '').split('&').filter((pair) => {
+    const [key] = [...new URLSearchParams(pair).keys()];
+    return key !== undefined && !existingKeys.has(key);
+  });
+  if (pairs.length) {
+    url.search = url.search ? `${url.search}&${pairs.join('&')}` : pairs.join('&');
+  }
+
+  return url.toString();
+}
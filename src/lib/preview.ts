@@ -0,0 +1,37 @@
+import type { Request, Response } from 'express';
+import { prisma } from './prisma.js';
+
+const PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+function previewCookieName(linkId: string) {
+  return `linksly_preview_${linkId}`;
+}
+
+/**
+ * Set when a preview is shown, so the visitor's "continue" click goes
+ * through a link that forces previews instead of seeing it again.
+ */
+export function hasPreviewCookie(req: Request, linkId: string) {
+  const expiresAt = Number(req.signedCookies?.[previewCookieName(linkId)]);
+  return Number.isFinite(expiresAt) && expiresAt > Date.now();
+}
+
+export function setPreviewCookie(res: Response, linkId: string) {
+  const expiresAt = Date.now() + PREVIEW_TTL_MS;
+  res.cookie(previewCookieName(linkId), String(expiresAt), {
+    signed: true,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/', // Custom domains also serve links at the root
+    maxAge: PREVIEW_TTL_MS,
+  });
+}
+
+// Preview views are counted on their own and never as clicks
+export async function recordPreviewView(linkId: string) {
+  await prisma.link.update({
+    where: { id: linkId },
+    data: { totalPreviews: { increment: 1 } },
+  });
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchRedirectRule, getRuleConditionError, type Visitor } from './redirectRules.js';
+
+type Rule = { id: string; country: string | null; region: string | null; platform: string | null };
+
+function rule(id: string, conditions: Partial<Omit<Rule, 'id'>>): Rule {
+  return { id, country: null, region: null, platform: null, ...conditions };
+}
+
+const californianIphone: Visitor = {
+  geo: { country: 'US', region: 'CA', city: 'San Francisco' },
+  userAgent: { device: 'mobile', browser: 'Mobile Safari', os: 'iOS' },
+};
+
+describe('matchRedirectRule', () => {
+  it('returns null when no rule matches', () => {
+    assert.equal(matchRedirectRule([rule('de', { country: 'DE' })], californianIphone), null);
+  });
+
+  it('requires every condition a rule sets to match', () => {
+    const rules = [rule('us-android', { country: 'US', platform: 'android' })];
+    assert.equal(matchRedirectRule(rules, californianIphone), null);
+  });
+
+  it('prefers a region over a country', () => {
+    const rules = [rule('us', { country: 'US' }), rule('ca', { country: 'US', region: 'CA' })];
+    assert.equal(matchRedirectRule(rules, californianIphone)?.id, 'ca');
+  });
+
+  it('prefers an operating system over mobile or desktop', () => {
+    const rules = [rule('mobile', { platform: 'mobile' }), rule('ios', { platform: 'ios' })];
+    assert.equal(matchRedirectRule(rules, californianIphone)?.id, 'ios');
+  });
+
+  it('prefers a rule combining location and platform over either alone', () => {
+    const rules = [
+      rule('ca', { country: 'US', region: 'CA' }),
+      rule('us-ios', { country: 'US', platform: 'ios' }),
+      rule('ca-ios', { country: 'US', region: 'CA', platform: 'ios' }),
+    ];
+    assert.equal(matchRedirectRule(rules, californianIphone)?.id, 'ca-ios');
+  });
+
+  it('lets the earlier rule win a tie', () => {
+    const rules = [rule('us', { country: 'US' }), rule('mobile', { platform: 'mobile' })];
+    assert.equal(matchRedirectRule(rules, californianIphone)?.id, 'us');
+  });
+
+  it('matches nothing on location or platform for an unknown visitor', () => {
+    const rules = [rule('us', { country: 'US' }), rule('desktop', { platform: 'desktop' })];
+    assert.equal(matchRedirectRule(rules, { geo: null, userAgent: null }), null);
+  });
+});
+
+describe('getRuleConditionError', () => {
+  it('needs a country or a platform', () => {
+    assert.ok(getRuleConditionError({}));
+    assert.equal(getRuleConditionError({ platform: 'ios' }), null);
+  });
+
+  it('needs a country for a region', () => {
+    assert.ok(getRuleConditionError({ region: 'CA', platform: 'ios' }));
+    assert.equal(getRuleConditionError({ country: 'US', region: 'CA' }), null);
+  });
+});
@@ -0,0 +1,102 @@
+import type { RedirectRule } from '@prisma/client';
+import type { GeoLocation } from './geoip.js';
+import type { ParsedUserAgent } from './userAgent.js';
+
+export const PLATFORMS = ['ios', 'android', 'windows', 'macos', 'linux', 'mobile', 'desktop'] as const;
+
+export type Platform = (typeof PLATFORMS)[number];
+
+type RuleConditions = Pick<RedirectRule, 'country' | 'region' | 'platform'>;
+
+export interface Visitor {
+  geo: GeoLocation | null;
+  userAgent: ParsedUserAgent | null;
+}
+
+// ua-parser-js OS names; desktop Linux distributions report their own name
+const OS_PLATFORMS: Record<string, Platform> = {
+  iOS: 'ios',
+  Android: 'android',
+  Windows: 'windows',
+  'Mac OS': 'macos',
+  Linux: 'linux',
+  Ubuntu: 'linux',
+  Debian: 'linux',
+  Fedora: 'linux',
+  Mint: 'linux',
+  Arch: 'linux',
+  'Red Hat': 'linux',
+  CentOS: 'linux',
+  SUSE: 'linux',
+  Gentoo: 'linux',
+};
+
+// Schemes a deep link page must never navigate to
+const BLOCKED_DEEP_LINK_PROTOCOLS = new Set(['javascript:', 'data:', 'vbscript:', 'file:', 'blob:', 'about:']);
+
+export function isAllowedDeepLink(url: string) {
+  try {
+    return !BLOCKED_DEEP_LINK_PROTOCOLS.has(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that a rule has something to match on. Returns an error message,
+ * or null when the conditions are usable.
+ */
+export function getRuleConditionError(rule: Partial<RuleConditions>) {
+  if (!rule.country && !rule.platform) {
+    return 'A redirect rule needs a country or a platform';
+  }
+  if (rule.region && !rule.country) {
+    return 'A region rule also needs a country';
+  }
+  return null;
+}
+
+function matchesPlatform(platform: string, userAgent: ParsedUserAgent | null) {
+  if (!userAgent) {
+    return false;
+  }
+
+  switch (platform) {
+    case 'mobile':
+      return userAgent.device === 'mobile' || userAgent.device === 'tablet';
+    case 'desktop':
+      return userAgent.device === 'desktop';
+    default:
+      return !!userAgent.os && OS_PLATFORMS[userAgent.os] === platform;
+  }
+}
+
+function matches(rule: RuleConditions, { geo, userAgent }: Visitor) {
+  if (rule.country && rule.country !== geo?.country) return false;
+  if (rule.region && rule.region !== geo?.region) return false;
+  if (rule.platform && !matchesPlatform(rule.platform, userAgent)) return false;
+  return true;
+}
+
+// A region beats a country and an operating system beats mobile/desktop
+function specificity(rule: RuleConditions) {
+  const geoScore = rule.region ? 2 : rule.country ? 1 : 0;
+  const platformScore = !rule.platform ? 0 : rule.platform === 'mobile' || rule.platform === 'desktop' ? 1 : 2;
+  return geoScore + platformScore;
+}
+
+/**
+ * Picks the rule for a visitor. Every condition a rule sets must match, and
+ * the most specific matching rule wins, with earlier rules winning ties.
+ * Returns null when nothing matches, in which case the link's own
+ * originalUrl applies.
+ */
+export function matchRedirectRule<T extends RuleConditions>(rules: T[], visitor: Visitor) {
+  let best: T | null = null;
+  for (const rule of rules) {
+    if (matches(rule, visitor) && (!best || specificity(rule) > specificity(best))) {
+      best = rule;
+    }
+  }
+  return best;
+}
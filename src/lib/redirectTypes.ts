@@ -0,0 +1,59 @@
+import type { Response } from 'express';
+import { renderRedirectPage } from './pages.js';
+
+export const REDIRECT_TYPES = ['301', '302', '307', '308', 'meta-refresh'] as const;
+
+export type RedirectType = (typeof REDIRECT_TYPES)[number];
+
+// How long browsers and proxies may reuse a permanent redirect
+const PERMANENT_MAX_AGE_SECONDS = parseInt(process.env.PERMANENT_REDIRECT_MAX_AGE || '') || 24 * 60 * 60;
+
+export function isPermanentRedirect(type: string) {
+  return type === '301' || type === '308';
+}
+
+export interface RedirectCacheOptions {
+  // The destination depends on who is asking (rules, variants, passwords)
+  personalized: boolean;
+  // Click limits, a start date or a preview page decide whether the link
+  // redirects at all
+  availabilityMayChange: boolean;
+  expiresAt: Date | null;
+}
+
+function getCacheControl(type: string, options: RedirectCacheOptions) {
+  if (!isPermanentRedirect(type) || options.availabilityMayChange) {
+    return 'no-store';
+  }
+
+  const maxAge = options.expiresAt
+    ? Math.min(PERMANENT_MAX_AGE_SECONDS, Math.floor((options.expiresAt.getTime() - Date.now()) / 1000))
+    : PERMANENT_MAX_AGE_SECONDS;
+  if (maxAge <= 0) {
+    return 'no-store';
+  }
+  return `${options.personalized ? 'private' : 'public'}, max-age=${maxAge}`;
+}
+
+/**
+ * Sends the visitor on with the link's redirect type. Temporary redirects
+ * are never cached so every click reaches the server and is counted.
+ * Permanent ones may be cached until the link expires, but only by the
+ * visitor's own browser when personalized, and not at all when the link
+ * could stop redirecting before then. Unknown types fall back to a plain
+ * 302.
+ */
+export function sendRedirect(res: Response, type: string, url: string, options: RedirectCacheOptions) {
+  res.setHeader('Cache-Control', getCacheControl(type, options));
+
+  switch (type) {
+    case '301':
+    case '307':
+    case '308':
+      return res.redirect(Number(type), url);
+    case 'meta-refresh':
+      return res.type('html').send(renderRedirectPage({ url }));
+    default:
+      return res.redirect(302, url);
+  }
+}
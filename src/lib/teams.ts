@@ -0,0 +1,48 @@
+import { nanoid } from 'nanoid';
+import { prisma } from './prisma.js';
+
+export function generateInviteCode() {
+  return nanoid(16);
+}
+
+export function getDefaultTeamName(user: { name: string | null; email: string }) {
+  return `${user.name || user.email}'s team`;
+}
+
+/**
+ * Returns the id of the user's team. Accounts created before teams existed
+ * get a team of their own on first use, and their saved UTM presets move
+ * into it.
+ */
+export async function getTeamId(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { teamId: true, name: true, email: true },
+  });
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+  if (user.teamId) {
+    return user.teamId;
+  }
+
+  const team = await prisma.team.create({
+    data: { name: getDefaultTeamName(user), inviteCode: generateInviteCode() },
+  });
+
+  // Only one of two concurrent first requests gets to set the team
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, teamId: null },
+    data: { teamId: team.id },
+  });
+  if (!count) {
+    await prisma.team.delete({ where: { id: team.id } });
+    return getTeamId(userId);
+  }
+
+  await prisma.utmPreset.updateMany({
+    where: { userId, teamId: null },
+    data: { teamId: team.id },
+  });
+  return team.id;
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkDestinationUrl, isPrivateAddress } from './urlPolicy.js';
+
+describe('isPrivateAddress', () => {
+  it('accepts public addresses', () => {
+    assert.equal(isPrivateAddress('8.8.8.8'), false);
+    assert.equal(isPrivateAddress('2606:4700:4700::1111'), false);
+    assert.equal(isPrivateAddress('::ffff:8.8.8.8'), false);
+    assert.equal(isPrivateAddress('::ffff:808:808'), false);
+  });
+
+  it('flags private, loopback and link-local addresses', () => {
+    for (const address of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '192.168.0.1', '::1', 'fd00::1', 'fe80::1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('flags IPv4-mapped private addresses in both forms', () => {
+    assert.equal(isPrivateAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isPrivateAddress('::ffff:7f00:1'), true);
+    assert.equal(isPrivateAddress('::FFFF:C0A8:1'), true);
+  });
+});
+
+describe('checkDestinationUrl', () => {
+  it('allows a public destination', () => {
+    assert.equal(checkDestinationUrl('https://example.com/page'), null);
+    assert.equal(checkDestinationUrl('http://93.184.215.14/'), null);
+    assert.equal(checkDestinationUrl('http://[::ffff:93.184.215.14]/'), null);
+  });
+
+  it('rejects private hosts', () => {
+    for (const url of ['http://127.0.0.1/', 'http://[::ffff:127.0.0.1]/', 'http://[::ffff:a00:1]/', 'http://intranet.local/']) {
+      assert.equal(checkDestinationUrl(url)?.code, 'private_address', url);
+    }
+  });
+
+  it('rejects schemes other than http and https', () => {
+    assert.equal(checkDestinationUrl('javascript:alert(1)')?.code, 'unsupported_scheme');
+  });
+
+  it('rejects short link routes on its own hosts regardless of case', () => {
+    const ownHostnames = { app: ['sho.rt'], custom: [] };
+    for (const url of ['https://sho.rt/s/abc', 'https://sho.rt/S/abc', 'https://SHO.RT/P/abc']) {
+      assert.equal(checkDestinationUrl(url, ownHostnames)?.code, 'redirect_loop', url);
+    }
+    assert.equal(checkDestinationUrl('https://sho.rt/about', ownHostnames), null);
+    assert.equal(checkDestinationUrl('https://example.com/s/abc', ownHostnames), null);
+  });
+
+  it('rejects any path on a custom domain, which serves links at the root', () => {
+    const ownHostnames = { app: ['sho.rt'], custom: ['go.example.com'] };
+    assert.equal(checkDestinationUrl('https://go.example.com/abc', ownHostnames)?.code, 'redirect_loop');
+    assert.equal(checkDestinationUrl('https://go.example.com/', ownHostnames), null);
+  });
+});
@@ -0,0 +1,175 @@
+import { BlockList, isIP } from 'net';
+
+export type UrlPolicyCode =
+  | 'invalid_url'
+  | 'unsupported_scheme'
+  | 'private_address'
+  | 'redirect_loop'
+  | 'blocked_domain'
+  | 'domain_not_allowed';
+
+export interface UrlPolicyViolation {
+  code: UrlPolicyCode;
+  message: string;
+}
+
+export interface OwnHostnames {
+  // Serve short links under /s/ and previews under /p/
+  app: readonly string[];
+  // Custom domains, which also serve short links at the root
+  custom: readonly string[];
+}
+
+type UrlMatcher = (url: URL, hostname: string) => boolean;
+
+interface UrlPolicy {
+  schemes: Set<string>;
+  blocklist: UrlMatcher[];
+  allowlist: UrlMatcher[];
+  allowPrivateAddresses: boolean;
+}
+
+const PRIVATE_NETWORKS = new BlockList();
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addAddress('::', 'ipv6');
+PRIVATE_NETWORKS.addAddress('::1', 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+
+// Names that only resolve inside a network
+const LOCAL_HOSTNAME = /(^|\.)(localhost|localdomain|local|internal)$/;
+
+// Short link and preview routes; a destination there would redirect to
+// itself. Express matches routes case-insensitively on the undecoded path,
+// which is also what URL#pathname holds.
+const SHORT_LINK_PATH = /^\/[sp]\//i;
+
+// IPv4-mapped IPv6 addresses, dotted ("::ffff:10.0.0.1") or in the hex form
+// URL parsing writes them in ("::ffff:a00:1")
+const IPV4_MAPPED = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i;
+
+function toMappedIpv4(address: string) {
+  const match = IPV4_MAPPED.exec(address);
+  if (!match) {
+    return null;
+  }
+  if (match[1]) {
+    return match[1];
+  }
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+export function isPrivateAddress(address: string) {
+  const ipv4 = toMappedIpv4(address) ?? address;
+  if (isIP(ipv4) === 4) {
+    return PRIVATE_NETWORKS.check(ipv4, 'ipv4');
+  }
+  return isIP(address) === 6 && PRIVATE_NETWORKS.check(address, 'ipv6');
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * List entries come in three forms:
+ * - "example.com" matches the domain and all of its subdomains
+ * - "*.example.com" or "bit.*" is a wildcard over the hostname
+ * - "/pattern/" is a case-insensitive regular expression over the full URL
+ */
+function parseMatcher(entry: string): UrlMatcher {
+  if (entry.length > 2 && entry.startsWith('/') && entry.endsWith('/')) {
+    const pattern = new RegExp(entry.slice(1, -1), 'i');
+    return (url) => pattern.test(url.href);
+  }
+
+  const domain = entry.toLowerCase();
+  if (domain.includes('*')) {
+    const pattern = new RegExp(`^${domain.split('*').map(escapeRegExp).join('.*')}$`);
+    return (_url, hostname) => pattern.test(hostname);
+  }
+  return (_url, hostname) => hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+function parseList(value?: string) {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(parseMatcher);
+}
+
+/**
+ * Reads the policy from the environment:
+ * - URL_POLICY_SCHEMES: allowed schemes, default "http,https"
+ * - URL_POLICY_BLOCKLIST / URL_POLICY_ALLOWLIST: comma-separated entries;
+ *   a non-empty allowlist rejects every destination it does not match
+ * - URL_POLICY_ALLOW_PRIVATE=true: accept loopback, private and link-local
+ *   hosts, e.g. for a self-hosted intranet shortener
+ */
+function loadUrlPolicy(env: NodeJS.ProcessEnv): UrlPolicy {
+  const schemes = (env.URL_POLICY_SCHEMES || 'http,https')
+    .split(',')
+    .map((scheme) => `${scheme.trim().toLowerCase().replace(/:$/, '')}:`);
+
+  return {
+    schemes: new Set(schemes),
+    blocklist: parseList(env.URL_POLICY_BLOCKLIST),
+    allowlist: parseList(env.URL_POLICY_ALLOWLIST),
+    allowPrivateAddresses: env.URL_POLICY_ALLOW_PRIVATE === 'true',
+  };
+}
+
+const policy = loadUrlPolicy(process.env);
+
+/**
+ * Checks a destination before it is stored. `ownHostnames` are the hosts
+ * this service answers on; a short link route on one of them is rejected as
+ * a redirect loop. Returns the first violation, or null when the URL is
+ * allowed.
+ */
+export function checkDestinationUrl(
+  value: string,
+  ownHostnames: OwnHostnames = { app: [], custom: [] }
+): UrlPolicyViolation | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { code: 'invalid_url', message: 'Invalid URL' };
+  }
+
+  if (!policy.schemes.has(url.protocol)) {
+    return { code: 'unsupported_scheme', message: `${url.protocol.slice(0, -1)} URLs are not allowed` };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (!policy.allowPrivateAddresses && (isIP(hostname) ? isPrivateAddress(hostname) : LOCAL_HOSTNAME.test(hostname))) {
+    return { code: 'private_address', message: 'URLs pointing at private or loopback addresses are not allowed' };
+  }
+
+  const loops = ownHostnames.custom.includes(hostname)
+    ? url.pathname !== '/'
+    : ownHostnames.app.includes(hostname) && SHORT_LINK_PATH.test(url.pathname);
+  if (loops) {
+    return { code: 'redirect_loop', message: 'URL points back at a short link and would cause a redirect loop' };
+  }
+
+  if (policy.blocklist.some((matches) => matches(url, hostname))) {
+    return { code: 'blocked_domain', message: `Links to ${hostname} are not allowed` };
+  }
+
+  if (policy.allowlist.length > 0 && !policy.allowlist.some((matches) => matches(url, hostname))) {
+    return { code: 'domain_not_allowed', message: `${hostname} is not on the list of allowed domains` };
+  }
+
+  return null;
+}
@@ -0,0 +1,58 @@
+import UAParser from 'ua-parser-js';
+
+export type DeviceClass = 'desktop' | 'mobile' | 'tablet' | 'bot';
+
+export interface ParsedUserAgent {
+  device: DeviceClass;
+  browser: string | null;
+  os: string | null;
+}
+
+// ua-parser-js does not classify crawlers, so match the common signatures first
+const BOT_PATTERN = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|monitor|headless|curl|wget|python-requests|go-http-client|java\/|okhttp|axios|node-fetch|httpclient/i;
+
+export function isBotUserAgent(userAgent: string) {
+  return BOT_PATTERN.test(userAgent);
+}
+
+// Fetchers that chat apps and social networks use to build link previews.
+// iMessage identifies as facebookexternalhit and Twitterbot together.
+const UNFURL_BOT_PATTERN = /facebookexternalhit|facebot|twitterbot|slackbot|slack-imgproxy|linkedinbot|discordbot|telegrambot|whatsapp\/|skypeuripreview|microsoftpreview|pinterestbot|redditbot|embedly|iframely|vkshare|viber|snapchat|mastodon\/|cardyb|kakaotalk-scrap/i;
+
+export function isUnfurlBot(userAgent?: string | null) {
+  return !!userAgent && UNFURL_BOT_PATTERN.test(userAgent);
+}
+
+function getDeviceClass(userAgent: string, deviceType?: string): DeviceClass {
+  if (isBotUserAgent(userAgent)) {
+    return 'bot';
+  }
+
+  switch (deviceType) {
+    case 'tablet':
+      return 'tablet';
+    case 'mobile':
+    case 'wearable':
+      return 'mobile';
+    default:
+      return 'desktop';
+  }
+}
+
+/**
+ * Derives the device class, browser family with major version, and OS
+ * family stored on each Click.
+ */
+export function parseUserAgent(userAgent?: string | null): ParsedUserAgent | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  const { browser, os, device } = new UAParser(userAgent).getResult();
+
+  return {
+    device: getDeviceClass(userAgent, device.type),
+    browser: browser.name ? [browser.name, browser.major].filter(Boolean).join(' ') : null,
+    os: os.name ?? null,
+  };
+}
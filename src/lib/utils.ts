@@ -30,6 +30,11 @@ export function formatDate(date: Date) {
   }).format(date);
 }
 
+export function toDateTimeLocal(date: Date) {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
 export function getDomainFromUrl(url: string) {
   try {
     return new URL(url).hostname;
@@ -38,6 +43,24 @@ export function getDomainFromUrl(url: string) {
   }
 }
 
+type ShortUrlLink = { shortCode: string; customAlias?: string | null; domain?: { hostname: string } | null };
+
+// Links on a custom domain are served over HTTPS from that domain; the rest
+// from the default origin
+function getLinkOrigin(link: ShortUrlLink, defaultOrigin: string) {
+  return link.domain ? `https://${link.domain.hostname}` : defaultOrigin;
+}
+
+// Custom domains serve their links at the root, e.g. https://go.example.com/x
+export function getShortUrl(link: ShortUrlLink, defaultOrigin: string) {
+  const path = link.domain ? '' : '/s';
+  return `${getLinkOrigin(link, defaultOrigin)}${path}/${link.customAlias || link.shortCode}`;
+}
+
+export function getPreviewUrl(link: ShortUrlLink, defaultOrigin: string) {
+  return `${getLinkOrigin(link, defaultOrigin)}/p/${link.customAlias || link.shortCode}`;
+}
+
 export function copyToClipboard(text: string) {
   return navigator.clipboard.writeText(text);
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+// Shared by the redirect handler and the UTM builder preview
+
+export const UTM_FIELDS = {
+  utmSource: 'utm_source',
+  utmMedium: 'utm_medium',
+  utmCampaign: 'utm_campaign',
+  utmTerm: 'utm_term',
+  utmContent: 'utm_content',
+} as const;
+
+export type UtmField = keyof typeof UTM_FIELDS;
+
+export type UtmParams = Partial<Record<UtmField, string | null>>;
+
+/**
+ * Adds the given UTM parameters to a URL. Parameters the URL already
+ * carries are left untouched, so a destination tagged by hand keeps its
+ * own values.
+ */
+export function applyUtmParams(url: string, params: UtmParams) {
+  const fields = (Object.keys(UTM_FIELDS) as UtmField[]).filter((field) => params[field]);
+  if (!fields.length) {
+    return url;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  // Appended to the raw query so the URL's own parameters keep their exact
+  // encoding; going through searchParams would rewrite all of them
+  const pairs = fields
+    .filter((field) => !parsed.searchParams.has(UTM_FIELDS[field]))
+    .map((field) => `${UTM_FIELDS[field]}=${encodeURIComponent(params[field]!)}`);
+  if (pairs.length) {
+    parsed.search = parsed.search ? `${parsed.search}&${pairs.join('&')}` : pairs.join('&');
+  }
+  return parsed.toString();
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { pickWeightedVariant, assignVariant } from './variants.js';
+
+const variants = [
+  { id: 'a', weight: 1 },
+  { id: 'b', weight: 3 },
+  { id: 'paused', weight: 0 },
+];
+
+describe('pickWeightedVariant', () => {
+  it('splits the range of random values by weight', () => {
+    assert.equal(pickWeightedVariant(variants, () => 0)?.id, 'a');
+    assert.equal(pickWeightedVariant(variants, () => 0.24)?.id, 'a');
+    assert.equal(pickWeightedVariant(variants, () => 0.25)?.id, 'b');
+    assert.equal(pickWeightedVariant(variants, () => 0.999)?.id, 'b');
+  });
+
+  it('picks variants in proportion to their weights', () => {
+    const counts = { a: 0, b: 0, paused: 0 };
+    const steps = 1000;
+    for (let step = 0; step < steps; step++) {
+      counts[pickWeightedVariant(variants, () => step / steps)!.id as keyof typeof counts]++;
+    }
+    assert.deepEqual(counts, { a: 250, b: 750, paused: 0 });
+  });
+
+  it('returns null when every variant is paused', () => {
+    assert.equal(pickWeightedVariant([{ id: 'a', weight: 0 }]), null);
+    assert.equal(pickWeightedVariant([]), null);
+  });
+});
+
+describe('assignVariant', () => {
+  function fakeResponse() {
+    const cookies: Record<string, string> = {};
+    const res = { cookie: (name: string, value: string) => (cookies[name] = value) } as unknown as Response;
+    return { res, cookies };
+  }
+
+  it('remembers the assigned variant in a cookie', () => {
+    const { res, cookies } = fakeResponse();
+    const variant = assignVariant({ signedCookies: {} } as Request, res, 'link', variants);
+    assert.ok(variant);
+    assert.deepEqual(cookies, { linksly_variant_link: variant.id });
+  });
+
+  it('keeps a returning visitor on their variant', () => {
+    const { res, cookies } = fakeResponse();
+    const req = { signedCookies: { linksly_variant_link: 'a' } } as unknown as Request;
+    assert.equal(assignVariant(req, res, 'link', variants)?.id, 'a');
+    assert.deepEqual(cookies, {});
+  });
+
+  it('reassigns a visitor whose variant was paused', () => {
+    const { res } = fakeResponse();
+    const req = { signedCookies: { linksly_variant_link: 'paused' } } as unknown as Request;
+    assert.notEqual(assignVariant(req, res, 'link', variants)?.id, 'paused');
+  });
+});
@@ -0,0 +1,61 @@
+import type { Request, Response } from 'express';
+import type { LinkVariant } from '@prisma/client';
+
+const ASSIGNMENT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type WeightedVariant = Pick<LinkVariant, 'id' | 'weight'>;
+
+function assignmentCookieName(linkId: string) {
+  return `linksly_variant_${linkId}`;
+}
+
+/**
+ * Picks a variant with probability proportional to its weight. Returns
+ * null when every variant is paused (weight 0).
+ */
+export function pickWeightedVariant<T extends WeightedVariant>(variants: T[], random = Math.random) {
+  const totalWeight = variants.reduce((sum, variant) => sum + Math.max(variant.weight, 0), 0);
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  let remaining = random() * totalWeight;
+  for (const variant of variants) {
+    remaining -= Math.max(variant.weight, 0);
+    if (remaining < 0) {
+      return variant;
+    }
+  }
+  return variants.filter((variant) => variant.weight > 0).pop() ?? null;
+}
+
+/**
+ * Returns the variant this visitor was assigned earlier, or assigns one
+ * and remembers it in a signed cookie so repeat visits keep seeing the
+ * same destination. A visitor whose variant was paused or deleted is
+ * assigned again.
+ */
+export function assignVariant<T extends WeightedVariant>(req: Request, res: Response, linkId: string, variants: T[]) {
+  if (!variants.length) {
+    return null;
+  }
+
+  const assignedId = req.signedCookies?.[assignmentCookieName(linkId)];
+  const assigned = variants.find((variant) => variant.id === assignedId && variant.weight > 0);
+  if (assigned) {
+    return assigned;
+  }
+
+  const variant = pickWeightedVariant(variants);
+  if (variant) {
+    res.cookie(assignmentCookieName(linkId), variant.id, {
+      signed: true,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/', // Custom domains also serve links at the root
+      maxAge: ASSIGNMENT_TTL_MS,
+    });
+  }
+  return variant;
+}
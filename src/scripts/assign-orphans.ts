@@ -0,0 +1,30 @@
+import { prisma } from '../lib/prisma.js';
+
+// Gives links and API keys created before user accounts existed to one user,
+// e.g. `npm run db:assign-orphans -- admin@example.com`. Without an email the
+// earliest registered user gets them.
+async function main() {
+  const email = process.argv[2];
+
+  const user = email
+    ? await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } })
+    : await prisma.user.findFirst({ orderBy: { createdAt: 'asc' } });
+
+  if (!user) {
+    throw new Error(email ? `No user with email ${email}` : 'No users exist yet; sign up first');
+  }
+
+  const [links, apiKeys] = await prisma.$transaction([
+    prisma.link.updateMany({ where: { userId: null }, data: { userId: user.id } }),
+    prisma.apiKey.updateMany({ where: { userId: null }, data: { userId: user.id } }),
+  ]);
+
+  console.log(`Done. Assigned ${links.count} links and ${apiKeys.count} API keys to ${user.email}.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Assigning ownerless links failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
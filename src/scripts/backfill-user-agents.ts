@@ -0,0 +1,51 @@
+import { prisma } from '../lib/prisma.js';
+import { parseUserAgent } from '../lib/userAgent.js';
+
+const BATCH_SIZE = 500;
+
+// Re-parses the stored User-Agent of every click and rewrites device, browser and os
+async function main() {
+  let cursor: string | undefined;
+  let updated = 0;
+
+  for (;;) {
+    const clicks = await prisma.click.findMany({
+      where: { userAgent: { not: null } },
+      select: { id: true, userAgent: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (!clicks.length) {
+      break;
+    }
+
+    await prisma.$transaction(
+      clicks.map((click) => {
+        const parsed = parseUserAgent(click.userAgent);
+        return prisma.click.update({
+          where: { id: click.id },
+          data: {
+            device: parsed?.device ?? null,
+            browser: parsed?.browser ?? null,
+            os: parsed?.os ?? null,
+          },
+        });
+      })
+    );
+
+    updated += clicks.length;
+    cursor = clicks[clicks.length - 1].id;
+    console.log(`Backfilled ${updated} clicks`);
+  }
+
+  console.log(`Done. ${updated} clicks updated.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,21 +1,98 @@
+import { randomBytes } from 'crypto';
 import express from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import helmet from 'helmet';
 import { nanoid } from 'nanoid';
 import QRCode from 'qrcode';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { z } from 'zod';
+import { Prisma, type Link } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
-import { isValidUrl, formatUrl } from '../lib/utils.js';
+import { formatUrl, getShortUrl } from '../lib/utils.js';
+import { parseCsv } from '../lib/csv.js';
+import { streamExport, parseExportFields, LINK_EXPORT_FIELDS, CLICK_EXPORT_FIELDS } from '../lib/export.js';
+import { parseUserAgent, isUnfurlBot } from '../lib/userAgent.js';
+import { initGeoIp, lookupGeo } from '../lib/geoip.js';
+import { getLinkAnalytics } from '../lib/analytics.js';
+import { enqueueClick, startClickQueue, drainClickQueue } from '../lib/clickQueue.js';
+import { resolveShortCode, invalidateLink, getLinkCacheStats, type ResolvedLink } from '../lib/linkCache.js';
+import {
+  resolveDomainId,
+  invalidateDomains,
+  normalizeHostname,
+  isValidHostname,
+  getCustomHostnames,
+  generateVerificationToken,
+  getVerificationRecordName,
+  hasVerificationRecord,
+} from '../lib/domains.js';
+import { checkDestinationUrl, UrlPolicyCode, type OwnHostnames } from '../lib/urlPolicy.js';
+import { hasClickLimit, claimLimitedClick } from '../lib/clickLimit.js';
+import { isBotRequest } from '../lib/botDetection.js';
+import { PLATFORMS, matchRedirectRule, isAllowedDeepLink, getRuleConditionError } from '../lib/redirectRules.js';
+import { assignVariant } from '../lib/variants.js';
+import { applyUtmParams } from '../lib/utm.js';
+import { getTeamId, generateInviteCode, getDefaultTeamName } from '../lib/teams.js';
+import { applyPassthrough, type PassthroughOptions } from '../lib/passthrough.js';
+import { fetchLinkMetadata } from '../lib/metadata.js';
+import { REDIRECT_TYPES, sendRedirect } from '../lib/redirectTypes.js';
+import { hasUnlockCookie, setUnlockCookie, isUnlockRateLimited, recordFailedUnlock } from '../lib/linkPassword.js';
+import { hasPreviewCookie, setPreviewCookie, recordPreviewView } from '../lib/preview.js';
+import { renderUnlockPage, renderDeepLinkPage, renderPreviewPage, renderSocialCardPage } from '../lib/pages.js';
+import {
+  authenticate,
+  requireAdmin,
+  requireUserId,
+  generateApiKey,
+  maskApiKey,
+  hashPassword,
+  verifyPassword,
+  createSession,
+  destroySession,
+} from '../lib/auth.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Signs short-lived cookies such as password unlocks. Without a fixed
+// secret those cookies stop working whenever the server restarts.
+const COOKIE_SECRET = process.env.COOKIE_SECRET || randomBytes(32).toString('hex');
+if (!process.env.COOKIE_SECRET) {
+  console.warn('COOKIE_SECRET is not set; using a random secret for this process');
+}
+
+// Behind a reverse proxy, set TRUST_PROXY (a hop count, "true", or a subnet list
+// such as "loopback") so req.ip is taken from X-Forwarded-For
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY) {
+  if (/^\d+$/.test(TRUST_PROXY)) {
+    app.set('trust proxy', Number(TRUST_PROXY));
+  } else {
+    app.set('trust proxy', TRUST_PROXY === 'true' ? true : TRUST_PROXY);
+  }
+}
+
+// Browsers may only call the API with a user's session from CLIENT_URL and
+// the comma-separated CORS_ORIGINS; other origins get no CORS headers
+const CORS_ORIGINS = [process.env.CLIENT_URL, ...(process.env.CORS_ORIGINS ?? '').split(',')]
+  .map((origin) => origin?.trim())
+  .filter((origin): origin is string => !!origin && URL.canParse(origin))
+  .map((origin) => new URL(origin).origin);
+if (CORS_ORIGINS.length === 0) {
+  console.warn('CLIENT_URL is not set; cross-origin requests from the frontend will be refused');
+}
+
 // Middleware
 app.use(helmet());
-app.use(cors());
-app.use(express.json());
+app.use(cors({
+  origin: CORS_ORIGINS,
+  credentials: true,
+  exposedHeaders: ['Content-Disposition'],
+}));
+app.use(express.json({ limit: '2mb' }));
+app.use(cookieParser(COOKIE_SECRET));
 
 // Swagger configuration
 const swaggerOptions = {
@@ -32,6 +109,25 @@ const swaggerOptions = {
         description: 'Development server',
       },
     ],
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+        },
+        apiKeyHeader: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+        },
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'linksly_session',
+        },
+      },
+    },
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }, { cookieAuth: [] }],
   },
   apis: ['./src/server/api.ts'],
 };
@@ -39,13 +135,634 @@ const swaggerOptions = {
 const specs = swaggerJsdoc(swaggerOptions);
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs));
 
+// Every /api route requires a session or an active API key; /s/ and /p/ stay public
+app.use('/api', authenticate);
+
 // Validation schemas
-const createLinkSchema = z.object({
+const redirectRuleFields = {
+  country: z.string().regex(/^[A-Za-z]{2}$/).transform((value) => value.toUpperCase()),
+  region: z.string().regex(/^[A-Za-z0-9]{1,3}$/).transform((value) => value.toUpperCase()),
+  platform: z.enum(PLATFORMS),
+  destinationUrl: z.string().url(),
+  deepLinkUrl: z.string().url().refine(isAllowedDeepLink, 'Unsupported deep link scheme'),
+};
+
+const createRedirectRuleSchema = z.object({
+  country: redirectRuleFields.country.optional(),
+  region: redirectRuleFields.region.optional(),
+  platform: redirectRuleFields.platform.optional(),
+  destinationUrl: redirectRuleFields.destinationUrl,
+  deepLinkUrl: redirectRuleFields.deepLinkUrl.optional(),
+});
+
+const updateRedirectRuleSchema = z
+  .object({
+    country: redirectRuleFields.country.nullable(),
+    region: redirectRuleFields.region.nullable(),
+    platform: redirectRuleFields.platform.nullable(),
+    destinationUrl: redirectRuleFields.destinationUrl,
+    deepLinkUrl: redirectRuleFields.deepLinkUrl.nullable(),
+  })
+  .partial();
+
+const MAX_REDIRECT_RULES = 20;
+
+const createVariantSchema = z.object({
+  destinationUrl: z.string().url(),
+  weight: z.number().int().min(0).max(1000).default(1),
+  label: z.string().max(100).optional(),
+});
+
+const updateVariantSchema = createVariantSchema
+  .extend({
+    weight: z.number().int().min(0).max(1000),
+    label: z.string().max(100).nullable(),
+  })
+  .partial();
+
+const MAX_VARIANTS = 10;
+
+const utmValueSchema = z.string().trim().min(1).max(200);
+
+const utmParamsSchema = z.object({
+  utmSource: utmValueSchema.optional(),
+  utmMedium: utmValueSchema.optional(),
+  utmCampaign: utmValueSchema.optional(),
+  utmTerm: utmValueSchema.optional(),
+  utmContent: utmValueSchema.optional(),
+});
+
+const createUtmPresetSchema = utmParamsSchema.extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+const joinTeamSchema = z.object({
+  inviteCode: z.string().trim().min(1),
+});
+
+const createDomainSchema = z.object({
+  hostname: z.string().transform(normalizeHostname).refine(isValidHostname, 'Invalid hostname'),
+});
+
+const httpUrlSchema = z.string().url().refine((value) => /^https?:\/\//i.test(value), 'Must be an http or https URL');
+
+const createLinkSchema = utmParamsSchema.extend({
   originalUrl: z.string().url(),
+  domainId: z.string().optional(),
   customAlias: z.string().optional(),
   title: z.string().optional(),
   description: z.string().optional(),
+  activeFrom: z.string().datetime().optional(),
   expiresAt: z.string().datetime().optional(),
+  fallbackUrl: z.string().url().optional(),
+  maxClicks: z.number().int().positive().optional(),
+  singleUse: z.boolean().optional(),
+  forwardQuery: z.boolean().optional(),
+  forwardPath: z.boolean().optional(),
+  redirectType: z.enum(REDIRECT_TYPES).optional(),
+  forcePreview: z.boolean().optional(),
+  fetchMetadata: z.boolean().optional(),
+  ogTitle: z.string().max(300).optional(),
+  ogDescription: z.string().max(1000).optional(),
+  ogImageUrl: httpUrlSchema.optional(),
+  password: z.string().min(4).optional(),
+  redirectRules: z.array(createRedirectRuleSchema).max(MAX_REDIRECT_RULES).optional(),
+});
+
+// Analytics count human clicks unless ?includeBots=true
+const includeBotsSchema = z.enum(['true', 'false']).default('false').transform((value) => value === 'true');
+
+const analyticsOverviewQuerySchema = z.object({
+  includeBots: includeBotsSchema,
+});
+
+const linkAnalyticsQuerySchema = z.object({
+  granularity: z.enum(['hour', 'day', 'week']).default('day'),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  includeBots: includeBotsSchema,
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  fields: z.string().optional(),
+});
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1),
+  userId: z.string().min(1),
+});
+
+const signupSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+  name: z.string().optional(),
+});
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+// Fetching every row's page would hold the upload open for minutes
+const bulkLinkSchema = createLinkSchema.extend({
+  fetchMetadata: z.literal(false, { errorMap: () => ({ message: 'Metadata cannot be fetched in bulk uploads' }) }).optional(),
+});
+
+// singleUse is fixed at creation, since its claim also deactivates the link
+const updateLinkSchema = createLinkSchema
+  .omit({ domainId: true, customAlias: true, redirectRules: true, fetchMetadata: true, singleUse: true })
+  .extend({
+    title: z.string().nullable(),
+    description: z.string().nullable(),
+    activeFrom: z.string().datetime().nullable(),
+    expiresAt: z.string().datetime().nullable(),
+    fallbackUrl: z.string().url().nullable(),
+    maxClicks: z.number().int().positive().nullable(),
+    ogTitle: z.string().max(300).nullable(),
+    ogDescription: z.string().max(1000).nullable(),
+    ogImageUrl: httpUrlSchema.nullable(),
+    utmSource: utmValueSchema.nullable(),
+    utmMedium: utmValueSchema.nullable(),
+    utmCampaign: utmValueSchema.nullable(),
+    utmTerm: utmValueSchema.nullable(),
+    utmContent: utmValueSchema.nullable(),
+    isActive: z.boolean(),
+    password: z.string().min(4).nullable(),
+  })
+  .partial();
+
+const MAX_BULK_ROWS = 1000;
+
+type CreateLinkInput = z.infer<typeof createLinkSchema>;
+
+// `code` is set when a destination URL is rejected by the URL policy
+type PreparationError = { error: string; code?: UrlPolicyCode };
+
+type PreparedLink = { data: Prisma.LinkUncheckedCreateInput } | PreparationError;
+
+type CreateRedirectRuleInput = z.infer<typeof createRedirectRuleSchema>;
+
+type PreparedRedirectRule = { data: Prisma.RedirectRuleCreateWithoutLinkInput } | PreparationError;
+
+// The API host and the frontend host
+function getAppHostnames(req: express.Request) {
+  const hostnames = [normalizeHostname(req.hostname)];
+  if (process.env.CLIENT_URL && URL.canParse(process.env.CLIENT_URL)) {
+    hostnames.push(normalizeHostname(new URL(process.env.CLIENT_URL).hostname));
+  }
+  return hostnames;
+}
+
+// Short links are served on the app's hosts and every custom domain; a
+// destination on any of them may loop back to itself
+async function getOwnHostnames(req: express.Request): Promise<OwnHostnames> {
+  return { app: getAppHostnames(req), custom: await getCustomHostnames() };
+}
+
+// `label` prefixes the message for URLs other than the main destination
+function checkDestination(url: string, ownHostnames: OwnHostnames, label?: string): PreparationError | null {
+  const violation = checkDestinationUrl(url, ownHostnames);
+  if (!violation) {
+    return null;
+  }
+  return { error: label ? `${label}: ${violation.message}` : violation.message, code: violation.code };
+}
+
+function prepareRedirectRule(input: CreateRedirectRuleInput, ownHostnames: OwnHostnames): PreparedRedirectRule {
+  const conditionError = getRuleConditionError(input);
+  if (conditionError) {
+    return { error: conditionError };
+  }
+
+  const destinationUrl = formatUrl(input.destinationUrl);
+  const policyError = checkDestination(destinationUrl, ownHostnames);
+  if (policyError) {
+    return policyError;
+  }
+
+  return { data: { ...input, destinationUrl } };
+}
+
+// Shared by single and bulk creation so both apply the same rules
+async function prepareLinkData(input: CreateLinkInput, userId: string, ownHostnames: OwnHostnames): Promise<PreparedLink> {
+  const {
+    originalUrl,
+    domainId,
+    customAlias,
+    title,
+    description,
+    activeFrom,
+    expiresAt,
+    fallbackUrl,
+    maxClicks,
+    singleUse,
+    forwardQuery,
+    forwardPath,
+    redirectType,
+    forcePreview,
+    fetchMetadata,
+    ogTitle,
+    ogDescription,
+    ogImageUrl,
+    password,
+    redirectRules = [],
+    ...utmParams
+  } = input;
+
+  const formattedUrl = formatUrl(originalUrl);
+  const urlError = checkDestination(formattedUrl, ownHostnames);
+  if (urlError) {
+    return urlError;
+  }
+
+  const formattedFallbackUrl = fallbackUrl ? formatUrl(fallbackUrl) : undefined;
+  const fallbackError = formattedFallbackUrl && checkDestination(formattedFallbackUrl, ownHostnames, 'Fallback URL');
+  if (fallbackError) {
+    return fallbackError;
+  }
+
+  if (activeFrom && expiresAt && new Date(activeFrom) >= new Date(expiresAt)) {
+    return { error: 'activeFrom must be before expiresAt' };
+  }
+
+  const rules: Prisma.RedirectRuleCreateWithoutLinkInput[] = [];
+  for (const [index, rule] of redirectRules.entries()) {
+    const prepared = prepareRedirectRule(rule, ownHostnames);
+    if ('error' in prepared) {
+      return { ...prepared, error: `Redirect rule ${index + 1}: ${prepared.error}` };
+    }
+    rules.push(prepared.data);
+  }
+
+  if (domainId) {
+    const domain = await prisma.domain.findFirst({
+      where: { id: domainId, userId }
+    });
+    if (!domain) {
+      return { error: 'Domain not found' };
+    }
+    if (!domain.verifiedAt) {
+      return { error: 'Verify the domain before creating links on it' };
+    }
+  }
+
+  // Aliases are unique per domain and double as the short code
+  if (customAlias) {
+    const existing = await prisma.link.findFirst({
+      where: {
+        domainId: domainId ?? null,
+        OR: [{ shortCode: customAlias }, { customAlias }]
+      }
+    });
+    if (existing) {
+      return { error: 'Custom alias already exists' };
+    }
+  }
+
+  // Values the user typed win over the page's own
+  const metadata = fetchMetadata ? await fetchLinkMetadata(formattedUrl) : null;
+
+  return {
+    data: {
+      originalUrl: formattedUrl,
+      domainId,
+      domainKey: domainId ?? '',
+      shortCode: customAlias || nanoid(8),
+      customAlias,
+      title: title || metadata?.title || undefined,
+      description: description || metadata?.description || undefined,
+      faviconUrl: metadata?.faviconUrl ?? undefined,
+      imageUrl: metadata?.imageUrl ?? undefined,
+      metadataFetchedAt: metadata ? new Date() : undefined,
+      ogTitle,
+      ogDescription,
+      ogImageUrl,
+      activeFrom: activeFrom ? new Date(activeFrom) : undefined,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      fallbackUrl: formattedFallbackUrl,
+      maxClicks,
+      singleUse,
+      forwardQuery,
+      forwardPath,
+      redirectType,
+      forcePreview,
+      ...utmParams,
+      passwordHash: password ? await hashPassword(password) : undefined,
+      userId,
+      redirectRules: rules.length ? { create: rules } : undefined,
+    },
+  };
+}
+
+// Why a link cannot be followed right now, checked before the password gate
+// so locked visitors still reach the fallback URL
+function getUnavailableReason(link: Pick<Link, 'isActive' | 'activeFrom' | 'expiresAt'>, now = new Date()) {
+  if (!link.isActive) {
+    return { status: 404, error: 'Link not found' };
+  }
+  if (link.activeFrom && now < link.activeFrom) {
+    return { status: 403, error: 'Link is not active yet' };
+  }
+  if (link.expiresAt && now > link.expiresAt) {
+    return { status: 410, error: 'Link has expired' };
+  }
+  return null;
+}
+
+// What a short link request carries after the short code, kept percent-encoded
+// so forwarding does not change how the visitor wrote it
+function getPassthrough(req: express.Request) {
+  const queryStart = req.originalUrl.indexOf('?');
+  return {
+    pathSuffix: req.path.split('/').slice(3).join('/'),
+    query: queryStart === -1 ? '' : req.originalUrl.slice(queryStart + 1),
+  };
+}
+
+function getShortLinkPath(req: express.Request) {
+  const { query } = getPassthrough(req);
+  return query ? `${req.path}?${query}` : req.path;
+}
+
+// Shared by /p/:shortCode and links that force a preview. The cookie lets
+// the visitor's "continue" click through a forced preview.
+function sendPreviewPage(
+  res: express.Response,
+  link: ResolvedLink,
+  options: { continueUrl: string; passthrough?: PassthroughOptions }
+) {
+  setPreviewCookie(res, link.id);
+  recordPreviewView(link.id).catch((error) => console.error('Error recording preview view:', error));
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.type('html').send(renderPreviewPage({
+    // Showing a limited link's destination would let visitors skip using it up
+    destinationUrl: hasClickLimit(link)
+      ? null
+      : applyPassthrough(applyUtmParams(link.originalUrl, link), options.passthrough ?? {}),
+    continueUrl: options.continueUrl,
+    title: link.title,
+    description: link.description,
+    variesByVisitor: link.redirectRules.length > 0 || link.variants.length > 0,
+  }));
+}
+
+// Where the card page's "Open link" button leads a person mistaken for a crawler
+function getCardContinueUrl(
+  req: express.Request,
+  link: ResolvedLink,
+  options: { shortCode: string; gated: boolean; passthrough: PassthroughOptions }
+) {
+  const { shortCode, gated, passthrough } = options;
+  if (link.passwordHash) {
+    return `/p/${encodeURIComponent(shortCode)}`;
+  }
+  if (gated) {
+    return getShortLinkPath(req);
+  }
+  return applyPassthrough(applyUtmParams(link.originalUrl, link), passthrough);
+}
+
+function hasSocialCard(link: Pick<Link, 'ogTitle' | 'ogDescription' | 'ogImageUrl'>) {
+  return !!(link.ogTitle || link.ogDescription || link.ogImageUrl);
+}
+
+// Enough of a link's domain for clients to build its short URL
+const LINK_DOMAIN_INCLUDE = {
+  domain: { select: { id: true, hostname: true } },
+} satisfies Prisma.LinkInclude;
+
+// Members are listed without their account details beyond name and email
+const TEAM_INCLUDE = {
+  members: { select: { id: true, email: true, name: true }, orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.TeamInclude;
+
+// Never expose password hashes; clients only need to know a password is set
+function serializeLink<T extends { passwordHash: string | null }>(link: T) {
+  const { passwordHash, ...rest } = link;
+  return { ...rest, hasPassword: passwordHash !== null };
+}
+
+function serializeDomain<T extends { hostname: string }>(domain: T) {
+  return { ...domain, verificationRecord: getVerificationRecordName(domain.hostname) };
+}
+
+function toSelect<T extends string>(fields: readonly T[]) {
+  return Object.fromEntries([...fields, 'id'].map((field) => [field, true])) as Record<T | 'id', true>;
+}
+
+function toDateRange(from?: string, to?: string) {
+  if (!from && !to) {
+    return undefined;
+  }
+  return {
+    gte: from ? new Date(from) : undefined,
+    lte: to ? new Date(to) : undefined,
+  };
+}
+
+// A code or alias can be taken between the availability check and the insert
+function isUniqueConstraintError(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function formatZodError(error: z.ZodError) {
+  return error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+// CSV cells and spreadsheet exports use empty strings for "not set"
+function normalizeBulkRow(row: unknown) {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return row;
+  }
+
+  const normalized: Record<string, unknown> = Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== '')
+  );
+  // CSV cells are always strings
+  if (typeof normalized.maxClicks === 'string') {
+    normalized.maxClicks = Number(normalized.maxClicks);
+  }
+  for (const field of ['singleUse', 'forwardQuery', 'forwardPath', 'forcePreview', 'fetchMetadata']) {
+    const value = normalized[field];
+    if (typeof value === 'string') {
+      normalized[field] = value.toLowerCase() === 'true';
+    }
+  }
+  return normalized;
+}
+
+/**
+ * @swagger
+ * /api/auth/signup:
+ *   post:
+ *     summary: Create an account and start a session
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Account created
+ *       409:
+ *         description: Email already registered
+ */
+app.post('/api/auth/signup', async (req, res) => {
+  try {
+    const { email, password, name } = signupSchema.parse(req.body);
+    const normalizedEmail = email.toLowerCase();
+
+    const existing = await prisma.user.findUnique({
+      where: { email: normalizedEmail }
+    });
+    if (existing) {
+      return res.status(409).json({ error: 'Email already registered' });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name,
+        passwordHash: await hashPassword(password),
+        team: {
+          create: {
+            name: getDefaultTeamName({ name: name ?? null, email: normalizedEmail }),
+            inviteCode: generateInviteCode(),
+          },
+        },
+      },
+      select: { id: true, email: true, name: true, createdAt: true }
+    });
+
+    await createSession(res, user.id);
+    res.status(201).json(user);
+  } catch (error) {
+    console.error('Error signing up:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Log in and start a session
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *       401:
+ *         description: Invalid email or password
+ */
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { email, password } = loginSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    await createSession(res, user.id);
+    res.json({ id: user.id, email: user.email, name: user.name, createdAt: user.createdAt });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: End the current session
+ *     tags: [Auth]
+ *     responses:
+ *       204:
+ *         description: Logged out
+ */
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await destroySession(req, res);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get the current user
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Current user
+ *       401:
+ *         description: Not logged in
+ */
+app.get('/api/auth/me', async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: requireUserId(req) },
+      select: { id: true, email: true, name: true, createdAt: true }
+    });
+
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json(user);
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 /**
@@ -59,25 +776,2386 @@ const createLinkSchema = z.object({
  *           type: string
  *         originalUrl:
  *           type: string
+ *         domainId:
+ *           type: string
+ *           nullable: true
+ *         domain:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/Domain'
  *         shortCode:
  *           type: string
  *         customAlias:
  *           type: string
  *         title:
  *           type: string
+ *         description:
+ *           type: string
+ *         faviconUrl:
+ *           type: string
+ *           nullable: true
+ *         imageUrl:
+ *           type: string
+ *           nullable: true
+ *         metadataFetchedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         ogTitle:
+ *           type: string
+ *           nullable: true
+ *         ogDescription:
+ *           type: string
+ *           nullable: true
+ *         ogImageUrl:
+ *           type: string
+ *           nullable: true
  *         totalClicks:
  *           type: number
+ *           description: Human clicks
+ *         botClicks:
+ *           type: number
+ *           description: Clicks classified as crawlers, scanners or monitors
+ *         activeFrom:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         fallbackUrl:
+ *           type: string
+ *           nullable: true
+ *         maxClicks:
+ *           type: integer
+ *           nullable: true
+ *         singleUse:
+ *           type: boolean
+ *         forwardQuery:
+ *           type: boolean
+ *         forwardPath:
+ *           type: boolean
+ *         redirectType:
+ *           type: string
+ *           enum: ['301', '302', '307', '308', meta-refresh]
+ *         forcePreview:
+ *           type: boolean
+ *         totalPreviews:
+ *           type: integer
+ *           description: Views of the preview page, not counted as clicks
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     RedirectRule:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         linkId:
+ *           type: string
+ *         country:
+ *           type: string
+ *           nullable: true
+ *         region:
+ *           type: string
+ *           nullable: true
+ *         platform:
+ *           type: string
+ *           nullable: true
+ *         destinationUrl:
+ *           type: string
+ *         deepLinkUrl:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     LinkVariant:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         linkId:
+ *           type: string
+ *         label:
+ *           type: string
+ *           nullable: true
+ *         destinationUrl:
+ *           type: string
+ *         weight:
+ *           type: integer
  *         createdAt:
  *           type: string
  *           format: date-time
+ *     Domain:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         hostname:
+ *           type: string
+ *         verificationRecord:
+ *           type: string
+ *           description: Name of the TXT record that proves ownership
+ *           example: _linksly-verification.go.example.com
+ *         verificationToken:
+ *           type: string
+ *           description: The TXT record's value is linksly-verification={verificationToken}
+ *         verifiedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Unverified domains serve no links
+ *     ValidationError:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         code:
+ *           type: string
+ *           description: Set when a destination URL breaks the URL policy
+ *           enum: [invalid_url, unsupported_scheme, private_address, redirect_loop, blocked_domain, domain_not_allowed]
+ *     Team:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         inviteCode:
+ *           type: string
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *                 nullable: true
+ *     UtmPreset:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         utmSource:
+ *           type: string
+ *           nullable: true
+ *         utmMedium:
+ *           type: string
+ *           nullable: true
+ *         utmCampaign:
+ *           type: string
+ *           nullable: true
+ *         utmTerm:
+ *           type: string
+ *           nullable: true
+ *         utmContent:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/links:
+ *   post:
+ *     summary: Create a new short link
+ *     tags: [Links]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - originalUrl
+ *             properties:
+ *               originalUrl:
+ *                 type: string
+ *               domainId:
+ *                 type: string
+ *                 description: >
+ *                   Serve the link from one of your custom domains instead of the
+ *                   default host. Aliases are unique per domain.
+ *               customAlias:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               activeFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 description: The link does not redirect before this time
+ *               fallbackUrl:
+ *                 type: string
+ *                 description: Where visitors go while the link is inactive, not yet active or expired
+ *               maxClicks:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Stop redirecting with 410 once the link has this many clicks
+ *               singleUse:
+ *                 type: boolean
+ *                 description: Deactivate the link after its first click
+ *               forwardQuery:
+ *                 type: boolean
+ *                 description: Add the visitor's query parameters to the destination
+ *               forwardPath:
+ *                 type: boolean
+ *                 description: Append any path after the short code to the destination
+ *               redirectType:
+ *                 type: string
+ *                 enum: ['301', '302', '307', '308', meta-refresh]
+ *                 default: '302'
+ *                 description: >
+ *                   301 and 308 are permanent and may be cached by browsers for a day, or
+ *                   until expiresAt if sooner, so later changes can miss returning visitors.
+ *                   Links with click limits, activeFrom or forcePreview are never cached. 307 and 308 keep the
+ *                   request method. meta-refresh answers with an HTML page.
+ *               forcePreview:
+ *                 type: boolean
+ *                 description: Show every visitor the /p/{shortCode} preview page first
+ *               fetchMetadata:
+ *                 type: boolean
+ *                 description: >
+ *                   Fetch the destination page and fill in the title, description,
+ *                   favicon and image. A title or description given here wins.
+ *               ogTitle:
+ *                 type: string
+ *                 maxLength: 300
+ *                 description: >
+ *                   Social card shown when the link is unfurled in chat apps and
+ *                   social networks. Empty card fields fall back to the title,
+ *                   description and fetched image, except on password-protected links.
+ *               ogDescription:
+ *                 type: string
+ *                 maxLength: 1000
+ *               ogImageUrl:
+ *                 type: string
+ *               utmSource:
+ *                 type: string
+ *                 description: >
+ *                   utm_* parameters are added to the destination at redirect time
+ *                   unless the destination already has them
+ *               utmMedium:
+ *                 type: string
+ *               utmCampaign:
+ *                 type: string
+ *               utmTerm:
+ *                 type: string
+ *               utmContent:
+ *                 type: string
+ *               redirectRules:
+ *                 type: array
+ *                 maxItems: 20
+ *                 description: Same fields as POST /api/links/{id}/rules
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       201:
+ *         description: Link created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Link'
+ *       400:
+ *         description: Invalid input, or a destination rejected by the URL policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+app.post('/api/links', async (req, res) => {
+  try {
+    const userId = requireUserId(req);
+    const prepared = await prepareLinkData(createLinkSchema.parse(req.body), userId, await getOwnHostnames(req));
+
+    if ('error' in prepared) {
+      return res.status(400).json({ error: prepared.error, code: prepared.code });
+    }
+
+    const link = await prisma.link.create({
+      data: prepared.data,
+      include: { redirectRules: true, ...LINK_DOMAIN_INCLUDE },
+    });
+
+    // Clear any cached "not found" for the new code
+    invalidateLink(link);
+
+    res.status(201).json(serializeLink(link));
+  } catch (error) {
+    console.error('Error creating link:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    if (isUniqueConstraintError(error)) {
+      return res.status(400).json({ error: 'Custom alias already exists' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/bulk:
+ *   post:
+ *     summary: Create many links from a CSV file or JSON array
+ *     description: >
+ *       Each row is validated with the same rules as single creation, except that
+ *       fetchMetadata is not supported. Invalid rows are reported and skipped; the
+ *       valid rows are created together in one transaction. The response reports
+ *       the outcome of every row.
+ *       CSV uploads need a header row with the CreateLinkRequest field names.
+ *     tags: [Links]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             maxItems: 1000
+ *             items:
+ *               type: object
+ *               required:
+ *                 - originalUrl
+ *               properties:
+ *                 originalUrl:
+ *                   type: string
+ *                 domainId:
+ *                   type: string
+ *                 customAlias:
+ *                   type: string
+ *                 title:
+ *                   type: string
+ *                 description:
+ *                   type: string
+ *                 activeFrom:
+ *                   type: string
+ *                   format: date-time
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                 fallbackUrl:
+ *                   type: string
+ *                 maxClicks:
+ *                   type: integer
+ *                 singleUse:
+ *                   type: boolean
+ *                 forwardQuery:
+ *                   type: boolean
+ *                 forwardPath:
+ *                   type: boolean
+ *                 redirectType:
+ *                   type: string
+ *                 forcePreview:
+ *                   type: boolean
+ *                 ogTitle:
+ *                   type: string
+ *                 ogDescription:
+ *                   type: string
+ *                 ogImageUrl:
+ *                   type: string
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Per-row report; failed rows carry an error and, for URL policy rejections, a code
+ *       409:
+ *         description: A custom alias was taken by another request during the import; nothing was created
+ */
+app.post('/api/links/bulk', express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }), async (req, res) => {
+  try {
+    const userId = requireUserId(req);
+
+    let rows: unknown[];
+    if (typeof req.body === 'string') {
+      rows = parseCsv(req.body);
+    } else if (Array.isArray(req.body)) {
+      rows = req.body;
+    } else {
+      return res.status(400).json({ error: 'Expected a CSV body or a JSON array of links' });
+    }
+
+    if (!rows.length) {
+      return res.status(400).json({ error: 'No rows to import' });
+    }
+    if (rows.length > MAX_BULK_ROWS) {
+      return res.status(400).json({ error: `A bulk upload is limited to ${MAX_BULK_ROWS} rows` });
+    }
+
+    const results: { row: number; status: 'created' | 'failed'; link?: unknown; error?: string; code?: string }[] = [];
+    const pending: { row: number; data: Prisma.LinkUncheckedCreateInput }[] = [];
+    const uploadAliases = new Set<string>();
+    const ownHostnames = await getOwnHostnames(req);
+
+    for (const [index, raw] of rows.entries()) {
+      const row = index + 1;
+      const parsed = bulkLinkSchema.safeParse(normalizeBulkRow(raw));
+      if (!parsed.success) {
+        results.push({ row, status: 'failed', error: formatZodError(parsed.error) });
+        continue;
+      }
+
+      const { domainId, customAlias } = parsed.data;
+      const aliasKey = `${domainId ?? ''}/${customAlias}`;
+      if (customAlias && uploadAliases.has(aliasKey)) {
+        results.push({ row, status: 'failed', error: 'Custom alias is repeated in this upload' });
+        continue;
+      }
+
+      const prepared = await prepareLinkData(parsed.data, userId, ownHostnames);
+      if ('error' in prepared) {
+        results.push({ row, status: 'failed', error: prepared.error, code: prepared.code });
+        continue;
+      }
+
+      if (customAlias) uploadAliases.add(aliasKey);
+      pending.push({ row, data: prepared.data });
+    }
+
+    // Generated codes rarely collide, but one taken by an existing link or by
+    // another row would fail the whole transaction, so it is replaced first
+    const usedCodes = new Set(uploadAliases);
+    const existing = await prisma.link.findMany({
+      where: { shortCode: { in: pending.map(({ data }) => data.shortCode) } },
+      select: { domainKey: true, shortCode: true },
+    });
+    for (const link of existing) {
+      usedCodes.add(`${link.domainKey}/${link.shortCode}`);
+    }
+    for (const { data } of pending) {
+      if (data.customAlias) continue;
+      while (usedCodes.has(`${data.domainKey}/${data.shortCode}`)) {
+        data.shortCode = nanoid(8);
+      }
+      usedCodes.add(`${data.domainKey}/${data.shortCode}`);
+    }
+
+    let links;
+    try {
+      links = await prisma.$transaction(
+        pending.map(({ data }) => prisma.link.create({ data, include: LINK_DOMAIN_INCLUDE }))
+      );
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        return res.status(409).json({ error: 'A custom alias was taken while importing; no links were created, please retry' });
+      }
+      throw error;
+    }
+
+    for (const [index, link] of links.entries()) {
+      invalidateLink(link);
+      results.push({ row: pending[index].row, status: 'created', link: serializeLink(link) });
+    }
+    const created = links.length;
+    results.sort((a, b) => a.row - b.row);
+
+    res.json({
+      created,
+      failed: results.length - created,
+      results,
+    });
+  } catch (error) {
+    console.error('Error bulk creating links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links:
+ *   get:
+ *     summary: Get all links with pagination
+ *     tags: [Links]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of links
+ */
+app.get('/api/links', async (req, res) => {
+  try {
+    const userId = requireUserId(req);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const [links, total] = await Promise.all([
+      prisma.link.findMany({
+        where: { userId },
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          ...LINK_DOMAIN_INCLUDE,
+          _count: {
+            select: { clicks: true }
+          }
+        }
+      }),
+      prisma.link.count({ where: { userId } })
+    ]);
+
+    res.json({
+      links: links.map(serializeLink),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/export:
+ *   get:
+ *     summary: Export links as CSV or NDJSON
+ *     description: The response is streamed, so exports of any size are safe.
+ *     tags: [Export]
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: from
+ *         description: Only links created at or after this time
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Only links created at or before this time
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: fields
+ *         description: Comma-separated columns to include (defaults to all)
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Link export file
+ */
+app.get('/api/links/export', async (req, res) => {
+  try {
+    const userId = requireUserId(req);
+    const { format, from, to, fields: requestedFields } = exportQuerySchema.parse(req.query);
+
+    const { fields, error } = parseExportFields(LINK_EXPORT_FIELDS, requestedFields);
+    if (error || !fields) {
+      return res.status(400).json({ error });
+    }
+
+    await streamExport(res, {
+      format,
+      fields,
+      filename: 'links',
+      fetchBatch: (cursor, take) =>
+        prisma.link.findMany({
+          where: { userId, createdAt: toDateRange(from, to) },
+          select: toSelect(fields),
+          orderBy: { id: 'asc' },
+          take,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        }),
+    });
+  } catch (error) {
+    console.error('Error exporting links:', error);
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/clicks/export:
+ *   get:
+ *     summary: Export the click log of a link as CSV or NDJSON
+ *     description: The response is streamed, so exports of any size are safe.
+ *     tags: [Export]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: fields
+ *         description: Comma-separated columns to include (defaults to all)
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Click export file
+ *       404:
+ *         description: Link not found
+ */
+app.get('/api/links/:id/clicks/export', async (req, res) => {
+  try {
+    const { format, from, to, fields: requestedFields } = exportQuerySchema.parse(req.query);
+
+    const { fields, error } = parseExportFields(CLICK_EXPORT_FIELDS, requestedFields);
+    if (error || !fields) {
+      return res.status(400).json({ error });
+    }
+
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) }
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    await streamExport(res, {
+      format,
+      fields,
+      filename: `clicks-${link.customAlias || link.shortCode}`,
+      fetchBatch: (cursor, take) =>
+        prisma.click.findMany({
+          where: { linkId: link.id, createdAt: toDateRange(from, to) },
+          select: toSelect(fields),
+          orderBy: { id: 'asc' },
+          take,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        }),
+    });
+  } catch (error) {
+    console.error('Error exporting clicks:', error);
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}:
+ *   get:
+ *     summary: Get link details
+ *     tags: [Links]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Link details
+ */
+app.get('/api/links/:id', async (req, res) => {
+  try {
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: {
+        ...LINK_DOMAIN_INCLUDE,
+        clicks: {
+          orderBy: { createdAt: 'desc' },
+          take: 100
+        }
+      }
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    res.json(serializeLink(link));
+  } catch (error) {
+    console.error('Error fetching link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}:
+ *   patch:
+ *     summary: Update a link
+ *     tags: [Links]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               originalUrl:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *                 nullable: true
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               activeFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               fallbackUrl:
+ *                 type: string
+ *                 nullable: true
+ *               maxClicks:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *               forwardQuery:
+ *                 type: boolean
+ *               forwardPath:
+ *                 type: boolean
+ *               redirectType:
+ *                 type: string
+ *                 enum: ['301', '302', '307', '308', meta-refresh]
+ *               forcePreview:
+ *                 type: boolean
+ *               ogTitle:
+ *                 type: string
+ *                 nullable: true
+ *               ogDescription:
+ *                 type: string
+ *                 nullable: true
+ *               ogImageUrl:
+ *                 type: string
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Link updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Link'
+ *       404:
+ *         description: Link not found
+ *       400:
+ *         description: Invalid input, or a destination rejected by the URL policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+app.patch('/api/links/:id', async (req, res) => {
+  try {
+    const {
+      originalUrl,
+      title,
+      description,
+      activeFrom,
+      expiresAt,
+      fallbackUrl,
+      maxClicks,
+      forwardQuery,
+      forwardPath,
+      redirectType,
+      forcePreview,
+      ogTitle,
+      ogDescription,
+      ogImageUrl,
+      isActive,
+      password,
+      ...utmParams
+    } = updateLinkSchema.parse(req.body);
+
+    const existing = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const ownHostnames = await getOwnHostnames(req);
+
+    let formattedUrl: string | undefined;
+    if (originalUrl !== undefined) {
+      formattedUrl = formatUrl(originalUrl);
+      const policyError = checkDestination(formattedUrl, ownHostnames);
+      if (policyError) {
+        return res.status(400).json(policyError);
+      }
+    }
+
+    let formattedFallbackUrl: string | null | undefined = fallbackUrl;
+    if (fallbackUrl) {
+      formattedFallbackUrl = formatUrl(fallbackUrl);
+      const policyError = checkDestination(formattedFallbackUrl, ownHostnames, 'Fallback URL');
+      if (policyError) {
+        return res.status(400).json(policyError);
+      }
+    }
+
+    const nextActiveFrom = activeFrom === undefined ? existing.activeFrom : activeFrom ? new Date(activeFrom) : null;
+    const nextExpiresAt = expiresAt === undefined ? existing.expiresAt : expiresAt ? new Date(expiresAt) : null;
+    if (nextActiveFrom && nextExpiresAt && nextActiveFrom >= nextExpiresAt) {
+      return res.status(400).json({ error: 'activeFrom must be before expiresAt' });
+    }
+
+    const link = await prisma.link.update({
+      where: { id: existing.id },
+      data: {
+        originalUrl: formattedUrl,
+        title,
+        description,
+        activeFrom: nextActiveFrom,
+        expiresAt: nextExpiresAt,
+        fallbackUrl: formattedFallbackUrl,
+        maxClicks,
+        forwardQuery,
+        forwardPath,
+        redirectType,
+        forcePreview,
+        ogTitle,
+        ogDescription,
+        ogImageUrl,
+        ...utmParams,
+        isActive,
+        passwordHash: password === undefined ? undefined : password ? await hashPassword(password) : null,
+      },
+      include: LINK_DOMAIN_INCLUDE,
+    });
+
+    invalidateLink(link);
+
+    res.json(serializeLink(link));
+  } catch (error) {
+    console.error('Error updating link:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}:
+ *   delete:
+ *     summary: Delete a link and its click history
+ *     tags: [Links]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Link deleted
+ *       404:
+ *         description: Link not found
+ */
+app.delete('/api/links/:id', async (req, res) => {
+  try {
+    const existing = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    await prisma.link.delete({
+      where: { id: existing.id }
+    });
+
+    invalidateLink(existing);
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/metadata:
+ *   post:
+ *     summary: Refresh a link's metadata from its destination page
+ *     description: >
+ *       Fetches the original URL again and replaces the title, description,
+ *       favicon and image with the page's current values. Fields the page no
+ *       longer provides are kept.
+ *     tags: [Links]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Link with refreshed metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Link'
+ *       404:
+ *         description: Link not found
+ *       502:
+ *         description: The destination page could not be fetched or is not HTML
+ */
+app.post('/api/links/:id/metadata', async (req, res) => {
+  try {
+    const existing = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const metadata = await fetchLinkMetadata(existing.originalUrl);
+    if (!metadata) {
+      return res.status(502).json({ error: 'Could not fetch the destination page' });
+    }
+
+    const link = await prisma.link.update({
+      where: { id: existing.id },
+      data: {
+        title: metadata.title ?? undefined,
+        description: metadata.description ?? undefined,
+        faviconUrl: metadata.faviconUrl ?? undefined,
+        imageUrl: metadata.imageUrl ?? undefined,
+        metadataFetchedAt: new Date(),
+      },
+      include: LINK_DOMAIN_INCLUDE,
+    });
+
+    // Titles and descriptions are shown on the preview page
+    invalidateLink(link);
+
+    res.json(serializeLink(link));
+  } catch (error) {
+    console.error('Error refreshing link metadata:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/rules:
+ *   get:
+ *     summary: List a link's redirect rules
+ *     tags: [Redirect Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Redirect rules in creation order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RedirectRule'
+ *       404:
+ *         description: Link not found
+ */
+app.get('/api/links/:id/rules', async (req, res) => {
+  try {
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: { redirectRules: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    res.json(link.redirectRules);
+  } catch (error) {
+    console.error('Error fetching redirect rules:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/rules:
+ *   post:
+ *     summary: Add a redirect rule to a link
+ *     description: >
+ *       Visitors matching every condition the rule sets (country, region and
+ *       platform) are sent to destinationUrl instead of the link's originalUrl.
+ *       The most specific matching rule wins: a region beats a country and an
+ *       operating system beats mobile or desktop. With deepLinkUrl the visitor
+ *       gets a page that tries the app first and falls back to destinationUrl.
+ *     tags: [Redirect Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - destinationUrl
+ *             properties:
+ *               country:
+ *                 type: string
+ *                 description: ISO 3166-1 alpha-2 country code
+ *               region:
+ *                 type: string
+ *                 description: ISO 3166-2 subdivision code without the country prefix
+ *               platform:
+ *                 type: string
+ *                 enum: [ios, android, windows, macos, linux, mobile, desktop]
+ *               destinationUrl:
+ *                 type: string
+ *               deepLinkUrl:
+ *                 type: string
+ *                 description: App scheme URL such as myapp://product/42
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RedirectRule'
+ *       404:
+ *         description: Link not found
+ *       400:
+ *         description: Invalid input, or a destination rejected by the URL policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+app.post('/api/links/:id/rules', async (req, res) => {
+  try {
+    const prepared = prepareRedirectRule(createRedirectRuleSchema.parse(req.body), await getOwnHostnames(req));
+
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: { _count: { select: { redirectRules: true } } },
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    if ('error' in prepared) {
+      return res.status(400).json({ error: prepared.error, code: prepared.code });
+    }
+
+    if (link._count.redirectRules >= MAX_REDIRECT_RULES) {
+      return res.status(400).json({ error: `A link can have at most ${MAX_REDIRECT_RULES} redirect rules` });
+    }
+
+    const rule = await prisma.redirectRule.create({
+      data: { ...prepared.data, linkId: link.id },
+    });
+
+    invalidateLink(link);
+
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error creating redirect rule:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/rules/{ruleId}:
+ *   patch:
+ *     summary: Update a redirect rule
+ *     tags: [Redirect Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               country:
+ *                 type: string
+ *               region:
+ *                 type: string
+ *                 nullable: true
+ *               platform:
+ *                 type: string
+ *                 enum: [ios, android, windows, macos, linux, mobile, desktop]
+ *                 nullable: true
+ *               destinationUrl:
+ *                 type: string
+ *               deepLinkUrl:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RedirectRule'
+ *       404:
+ *         description: Link or rule not found
+ *       400:
+ *         description: Invalid input, or a destination rejected by the URL policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+app.patch('/api/links/:id/rules/:ruleId', async (req, res) => {
+  try {
+    const { country, region, platform, destinationUrl, deepLinkUrl } = updateRedirectRuleSchema.parse(req.body);
+
+    const existing = await prisma.redirectRule.findFirst({
+      where: { id: req.params.ruleId, link: { id: req.params.id, userId: requireUserId(req) } },
+      include: { link: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Redirect rule not found' });
+    }
+
+    const conditionError = getRuleConditionError({
+      country: country === undefined ? existing.country : country,
+      region: region === undefined ? existing.region : region,
+      platform: platform === undefined ? existing.platform : platform,
+    });
+    if (conditionError) {
+      return res.status(400).json({ error: conditionError });
+    }
+
+    let formattedUrl: string | undefined;
+    if (destinationUrl !== undefined) {
+      formattedUrl = formatUrl(destinationUrl);
+      const policyError = checkDestination(formattedUrl, await getOwnHostnames(req));
+      if (policyError) {
+        return res.status(400).json(policyError);
+      }
+    }
+
+    const rule = await prisma.redirectRule.update({
+      where: { id: existing.id },
+      data: {
+        country,
+        region,
+        platform,
+        destinationUrl: formattedUrl,
+        deepLinkUrl,
+      },
+    });
+
+    invalidateLink(existing.link);
+
+    res.json(rule);
+  } catch (error) {
+    console.error('Error updating redirect rule:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/rules/{ruleId}:
+ *   delete:
+ *     summary: Delete a redirect rule
+ *     description: Clicks recorded for the rule are kept without it.
+ *     tags: [Redirect Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Rule deleted
+ *       404:
+ *         description: Link or rule not found
+ */
+app.delete('/api/links/:id/rules/:ruleId', async (req, res) => {
+  try {
+    const existing = await prisma.redirectRule.findFirst({
+      where: { id: req.params.ruleId, link: { id: req.params.id, userId: requireUserId(req) } },
+      include: { link: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Redirect rule not found' });
+    }
+
+    await prisma.redirectRule.delete({
+      where: { id: existing.id }
+    });
+
+    invalidateLink(existing.link);
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting redirect rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/variants:
+ *   get:
+ *     summary: List a link's A/B variants
+ *     tags: [Variants]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Variants in creation order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LinkVariant'
+ *       404:
+ *         description: Link not found
+ */
+app.get('/api/links/:id/variants', async (req, res) => {
+  try {
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: { variants: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    res.json(link.variants);
+  } catch (error) {
+    console.error('Error fetching variants:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/variants:
+ *   post:
+ *     summary: Add an A/B variant to a link
+ *     description: >
+ *       Once a link has variants its traffic is split across their destinations
+ *       in proportion to their weights instead of going to originalUrl. Each
+ *       visitor keeps the variant they were first assigned through a cookie.
+ *     tags: [Variants]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - destinationUrl
+ *             properties:
+ *               destinationUrl:
+ *                 type: string
+ *               weight:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 1
+ *                 description: Relative share of traffic; 0 pauses the variant
+ *               label:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Variant created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LinkVariant'
+ *       404:
+ *         description: Link not found
+ *       400:
+ *         description: Invalid input, or a destination rejected by the URL policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+app.post('/api/links/:id/variants', async (req, res) => {
+  try {
+    const { destinationUrl, weight, label } = createVariantSchema.parse(req.body);
+
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: { _count: { select: { variants: true } } },
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    if (link._count.variants >= MAX_VARIANTS) {
+      return res.status(400).json({ error: `A link can have at most ${MAX_VARIANTS} variants` });
+    }
+
+    const formattedUrl = formatUrl(destinationUrl);
+    const policyError = checkDestination(formattedUrl, await getOwnHostnames(req));
+    if (policyError) {
+      return res.status(400).json(policyError);
+    }
+
+    const variant = await prisma.linkVariant.create({
+      data: {
+        linkId: link.id,
+        destinationUrl: formattedUrl,
+        weight,
+        label,
+      },
+    });
+
+    invalidateLink(link);
+
+    res.status(201).json(variant);
+  } catch (error) {
+    console.error('Error creating variant:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/variants/{variantId}:
+ *   patch:
+ *     summary: Update an A/B variant
+ *     tags: [Variants]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               destinationUrl:
+ *                 type: string
+ *               weight:
+ *                 type: integer
+ *                 minimum: 0
+ *               label:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Variant updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LinkVariant'
+ *       404:
+ *         description: Link or variant not found
+ *       400:
+ *         description: Invalid input, or a destination rejected by the URL policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+app.patch('/api/links/:id/variants/:variantId', async (req, res) => {
+  try {
+    const { destinationUrl, weight, label } = updateVariantSchema.parse(req.body);
+
+    const existing = await prisma.linkVariant.findFirst({
+      where: { id: req.params.variantId, link: { id: req.params.id, userId: requireUserId(req) } },
+      include: { link: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Variant not found' });
+    }
+
+    let formattedUrl: string | undefined;
+    if (destinationUrl !== undefined) {
+      formattedUrl = formatUrl(destinationUrl);
+      const policyError = checkDestination(formattedUrl, await getOwnHostnames(req));
+      if (policyError) {
+        return res.status(400).json(policyError);
+      }
+    }
+
+    const variant = await prisma.linkVariant.update({
+      where: { id: existing.id },
+      data: {
+        destinationUrl: formattedUrl,
+        weight,
+        label,
+      },
+    });
+
+    invalidateLink(existing.link);
+
+    res.json(variant);
+  } catch (error) {
+    console.error('Error updating variant:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/variants/{variantId}:
+ *   delete:
+ *     summary: Delete an A/B variant
+ *     description: >
+ *       Clicks recorded for the variant are kept without it. Visitors assigned
+ *       to it are assigned another variant on their next visit.
+ *     tags: [Variants]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Variant deleted
+ *       404:
+ *         description: Link or variant not found
+ */
+app.delete('/api/links/:id/variants/:variantId', async (req, res) => {
+  try {
+    const existing = await prisma.linkVariant.findFirst({
+      where: { id: req.params.variantId, link: { id: req.params.id, userId: requireUserId(req) } },
+      include: { link: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Variant not found' });
+    }
+
+    await prisma.linkVariant.delete({
+      where: { id: existing.id }
+    });
+
+    invalidateLink(existing.link);
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting variant:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/analytics:
+ *   get:
+ *     summary: Get click analytics for a link
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: granularity
+ *         schema:
+ *           type: string
+ *           enum: [hour, day, week]
+ *           default: day
+ *       - in: query
+ *         name: from
+ *         description: Start of the range (defaults to 30 days before `to`)
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: End of the range (defaults to now)
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         description: Number of entries in each breakdown
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: includeBots
+ *         description: Count clicks classified as bots as well
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Click time series, top-N breakdowns and clicks per A/B variant
+ *       404:
+ *         description: Link not found
+ */
+app.get('/api/links/:id/analytics', async (req, res) => {
+  try {
+    const { granularity, from, to, limit, includeBots } = linkAnalyticsQuerySchema.parse(req.query);
+
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) }
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from ? new Date(from) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (fromDate > toDate) {
+      return res.status(400).json({ error: '`from` must be before `to`' });
+    }
+
+    const analytics = await getLinkAnalytics(link.id, { from: fromDate, to: toDate, granularity, limit, includeBots });
+
+    res.json(analytics);
+  } catch (error) {
+    console.error('Error fetching link analytics:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/links/{id}/qr:
+ *   get:
+ *     summary: Generate QR code for a link
+ *     description: Encodes the short URL on the link's custom domain, if it has one.
+ *     tags: [Links]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: QR code image
+ */
+app.get('/api/links/:id/qr', async (req, res) => {
+  try {
+    const link = await prisma.link.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: LINK_DOMAIN_INCLUDE,
+    });
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const shortUrl = getShortUrl(link, `${req.protocol}://${req.get('host')}`);
+    const qrCode = await QRCode.toDataURL(shortUrl);
+
+    res.json({ qrCode });
+  } catch (error) {
+    console.error('Error generating QR code:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Paths that keep their meaning on custom domains
+const RESERVED_ROOT_PATH = /^\/(s|p|api|api-docs)(\/|$)/i;
+
+// Custom domains serve links at the root too, e.g. https://go.example.com/x,
+// by handing those requests to the /s/ routes
+app.use(async (req, res, next) => {
+  try {
+    if (req.path !== '/' && !RESERVED_ROOT_PATH.test(req.path) && (await resolveDomainId(req.hostname))) {
+      req.url = `/s${req.url}`;
+    }
+    next();
+  } catch (error) {
+    console.error('Error resolving custom domain:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /s/{shortCode}:
+ *   get:
+ *     summary: Redirect to original URL
+ *     description: >
+ *       The code is looked up on the custom domain matching the Host header, or
+ *       among default-host links when the host is not a registered domain.
+ *       Verified custom domains also serve it at the root, /{shortCode}.
+ *       Also served at /s/{shortCode}/{path}. The extra path is appended to the
+ *       destination only when the link has forwardPath set and is a 404
+ *       otherwise. With forwardQuery set, the request's query parameters are
+ *       added to the destination without overwriting keys it already has.
+ *     tags: [Redirect]
+ *     parameters:
+ *       - in: path
+ *         name: shortCode
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       3XX:
+ *         description: >
+ *           Redirect with the link's redirectType to the destination of the redirect
+ *           rule matching the visitor's location and platform, otherwise to the
+ *           visitor's A/B variant or the original URL. Unavailable links send a
+ *           302 to their fallback URL.
+ *       200:
+ *         description: >
+ *           HTML page that opens the matching rule's app deep link and falls back
+ *           to its destination URL, the meta-refresh page of a link with that
+ *           redirectType, or the preview page of a link with forcePreview.
+ *           Link-unfurling crawlers get an HTML page with the link's social card
+ *           and are never counted as clicks. For links with a click limit or
+ *           forcePreview they always get the card, which leaves out the
+ *           destination. Other automated requests are
+ *           recorded with isBot set and counted in botClicks instead of
+ *           totalClicks.
+ *       403:
+ *         description: Link is not active yet
+ *       410:
+ *         description: Link has expired or reached its click limit
+ */
+app.get(['/s/:shortCode', '/s/:shortCode/*'], async (req, res) => {
+  try {
+    const { shortCode } = req.params;
+    const { pathSuffix, query } = getPassthrough(req);
+    
+    const link = await resolveShortCode(await resolveDomainId(req.hostname), shortCode);
+
+    if (!link || (pathSuffix && !link.forwardPath)) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const unavailable = getUnavailableReason(link);
+    if (unavailable) {
+      if (link.fallbackUrl) {
+        return res.redirect(link.fallbackUrl);
+      }
+      return res.status(unavailable.status).json({ error: unavailable.error });
+    }
+
+    const passthrough = {
+      path: link.forwardPath ? pathSuffix : undefined,
+      query: link.forwardQuery ? query : undefined,
+    };
+
+    // Chat and social previews are never clicks. Crawlers get the link's own
+    // card when it has one, ahead of the password gate since the owner chose
+    // to publish it. Links that limit or gate their visitors always answer
+    // crawlers with a card that leaves the destination out, since anyone can
+    // send a crawler's User-Agent. Other links redirect crawlers like anyone else.
+    const userAgent = req.get('User-Agent');
+    const unfurlBot = isUnfurlBot(userAgent);
+    const gated = hasClickLimit(link) || link.forcePreview;
+    if (unfurlBot && (hasSocialCard(link) || gated)) {
+      // Fetched metadata may come from behind the password, so protected
+      // links only show what the owner wrote for the card
+      const fallback = link.passwordHash ? null : link;
+      res.setHeader('Cache-Control', 'no-store');
+      return res.type('html').send(renderSocialCardPage({
+        shortUrl: `${req.protocol}://${req.get('host')}${getShortLinkPath(req)}`,
+        continueUrl: getCardContinueUrl(req, link, { shortCode, gated, passthrough }),
+        title: link.ogTitle ?? fallback?.title,
+        description: link.ogDescription ?? fallback?.description,
+        imageUrl: link.ogImageUrl ?? fallback?.imageUrl,
+      }));
+    }
+
+    if (link.passwordHash && !hasUnlockCookie(req, link.id)) {
+      return res.type('html').send(renderUnlockPage({ action: getShortLinkPath(req) }));
+    }
+
+    if (link.forcePreview && !hasPreviewCookie(req, link.id)) {
+      return sendPreviewPage(res, link, { continueUrl: getShortLinkPath(req), passthrough });
+    }
+
+    const bot = isBotRequest({ method: req.method, userAgent, accept: req.get('Accept'), ip: req.ip });
+
+    // Limited links are counted here rather than by the click queue so the
+    // limit holds under concurrent requests
+    const limited = hasClickLimit(link);
+    if (limited && !(await claimLimitedClick(link, { bot }))) {
+      if (link.fallbackUrl) {
+        return res.redirect(link.fallbackUrl);
+      }
+      return res.status(410).json({ error: 'Link has reached its click limit' });
+    }
+
+    // Record click analytics
+    const parsedUserAgent = parseUserAgent(userAgent);
+    const geo = lookupGeo(req.ip);
+
+    // Targeting rules take precedence; everyone else is split across the variants
+    const rule = matchRedirectRule(link.redirectRules, { geo, userAgent: parsedUserAgent });
+    const variant = rule ? null : assignVariant(req, res, link.id, link.variants);
+
+    // Written in batches by the click queue, which also bumps totalClicks
+    // unless the limit claim already did. A click that cannot be queued is
+    // logged rather than failing the redirect.
+    if (!unfurlBot) {
+      await enqueueClick({
+        linkId: link.id,
+        ip: req.ip,
+        userAgent,
+        referer: req.get('Referer'),
+        device: parsedUserAgent?.device,
+        browser: parsedUserAgent?.browser,
+        os: parsedUserAgent?.os,
+        country: geo?.country,
+        city: geo?.city,
+        redirectRuleId: rule?.id,
+        variantId: variant?.id,
+        isBot: bot,
+      }, { counted: limited }).catch((error) => console.error('Error queueing click:', error));
+    }
+
+    // UTM parameters go first so they win over the same keys in the visitor's query
+    const destinationUrl = applyPassthrough(
+      applyUtmParams(rule?.destinationUrl ?? variant?.destinationUrl ?? link.originalUrl, link),
+      passthrough
+    );
+
+    if (rule?.deepLinkUrl) {
+      // The page's inline script is allowed by nonce instead of the default CSP
+      const nonce = randomBytes(16).toString('base64');
+      res.setHeader('Content-Security-Policy', `default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline'`);
+      return res.type('html').send(renderDeepLinkPage({ deepLinkUrl: rule.deepLinkUrl, webUrl: destinationUrl, nonce }));
+    }
+
+    // Anything that varies per visitor must stay out of shared caches
+    sendRedirect(res, link.redirectType, destinationUrl, {
+      personalized: !!link.passwordHash || link.redirectRules.length > 0 || link.variants.length > 0 || hasSocialCard(link),
+      availabilityMayChange: hasClickLimit(link) || !!link.activeFrom || link.forcePreview,
+      expiresAt: link.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error redirecting:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /p/{shortCode}:
+ *   get:
+ *     summary: Preview where a short link goes
+ *     description: >
+ *       HTML page with the link's destination, title and description and a
+ *       button that continues to the short link. Views are counted in the
+ *       link's totalPreviews, not as clicks. Password-protected links ask for
+ *       the password first. Links with a click limit or singleUse leave out
+ *       the destination, which is only revealed by a counted click.
+ *     tags: [Redirect]
+ *     parameters:
+ *       - in: path
+ *         name: shortCode
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Preview page
+ *       403:
+ *         description: Link is not active yet
+ *       404:
+ *         description: Link not found
+ *       410:
+ *         description: Link has expired
+ */
+app.get('/p/:shortCode', async (req, res) => {
+  try {
+    const { shortCode } = req.params;
+
+    const link = await resolveShortCode(await resolveDomainId(req.hostname), shortCode);
+
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const unavailable = getUnavailableReason(link);
+    if (unavailable) {
+      return res.status(unavailable.status).json({ error: unavailable.error });
+    }
+
+    if (link.passwordHash && !hasUnlockCookie(req, link.id)) {
+      return res.type('html').send(renderUnlockPage({ action: getShortLinkPath(req) }));
+    }
+
+    sendPreviewPage(res, link, { continueUrl: `/s/${encodeURIComponent(shortCode)}` });
+  } catch (error) {
+    console.error('Error rendering preview:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /s/{shortCode}:
+ *   post:
+ *     summary: Unlock a password-protected link
+ *     description: >
+ *       Submitted by the unlock form, here or on /p/{shortCode}. A correct password
+ *       sets a short-lived signed cookie and redirects back to the page it came
+ *       from. Failed attempts are recorded and rate limited per link and IP.
+ *     tags: [Redirect]
+ *     parameters:
+ *       - in: path
+ *         name: shortCode
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       303:
+ *         description: Unlocked, redirect to the short link
+ *       401:
+ *         description: Wrong password
+ *       429:
+ *         description: Too many failed attempts
+ */
+app.post(['/s/:shortCode', '/s/:shortCode/*', '/p/:shortCode'], express.urlencoded({ extended: false }), async (req, res) => {
+  try {
+    const { shortCode } = req.params;
+    const { pathSuffix } = getPassthrough(req);
+    const shortLinkPath = getShortLinkPath(req);
+
+    const link = await resolveShortCode(await resolveDomainId(req.hostname), shortCode);
+
+    if (!link || !link.passwordHash || getUnavailableReason(link) || (pathSuffix && !link.forwardPath)) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    if (await isUnlockRateLimited(link.id, req.ip)) {
+      return res.status(429).type('html').send(
+        renderUnlockPage({ action: shortLinkPath, error: 'Too many failed attempts. Try again later.' })
+      );
+    }
+
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    if (!(await verifyPassword(password, link.passwordHash))) {
+      await recordFailedUnlock(link.id, req);
+      return res.status(401).type('html').send(
+        renderUnlockPage({ action: shortLinkPath, error: 'Incorrect password' })
+      );
+    }
+
+    setUnlockCookie(res, link.id);
+    res.redirect(303, shortLinkPath);
+  } catch (error) {
+    console.error('Error unlocking link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/analytics/overview:
+ *   get:
+ *     summary: Get analytics overview
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: query
+ *         name: includeBots
+ *         description: Count clicks classified as bots as well
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Analytics overview
+ */
+app.get('/api/analytics/overview', async (req, res) => {
+  try {
+    const userId = requireUserId(req);
+    const { includeBots } = analyticsOverviewQuerySchema.parse(req.query);
+    const botFilter = includeBots ? {} : { isBot: false };
+
+    const [totalLinks, totalClicks, recentClicks] = await Promise.all([
+      prisma.link.count({ where: { userId } }),
+      prisma.click.count({ where: { link: { userId }, ...botFilter } }),
+      prisma.click.count({
+        where: {
+          link: { userId },
+          ...botFilter,
+          createdAt: {
+            gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // Last 7 days
+          }
+        }
+      })
+    ]);
+
+    // Get top links
+    const topLinks = await prisma.link.findMany({
+      where: { userId },
+      take: 5,
+      orderBy: { totalClicks: 'desc' },
+      select: {
+        id: true,
+        originalUrl: true,
+        shortCode: true,
+        totalClicks: true,
+        botClicks: true,
+        title: true
+      }
+    });
+
+    // Get clicks over time (last 7 days)
+    const clicksOverTime = await prisma.$queryRaw`
+      SELECT 
+        DATE(clicks.createdAt) as date,
+        COUNT(*) as clicks
+      FROM clicks 
+      JOIN links ON links.id = clicks.linkId
+      WHERE clicks.createdAt >= datetime('now', '-7 days')
+        AND links.userId = ${userId}
+        ${includeBots ? Prisma.empty : Prisma.sql`AND clicks.isBot = false`}
+      GROUP BY DATE(clicks.createdAt)
+      ORDER BY date ASC
+    `;
+
+    res.json({
+      totalLinks,
+      totalClicks,
+      recentClicks,
+      topLinks,
+      clicksOverTime
+    });
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/utm-presets:
+ *   get:
+ *     summary: List the UTM presets saved by your team
+ *     tags: [UTM Presets]
+ *     responses:
+ *       200:
+ *         description: Presets sorted by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UtmPreset'
+ */
+app.get('/api/utm-presets', async (req, res) => {
+  try {
+    const presets = await prisma.utmPreset.findMany({
+      where: { teamId: await getTeamId(requireUserId(req)) },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(presets);
+  } catch (error) {
+    console.error('Error fetching UTM presets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/utm-presets:
+ *   post:
+ *     summary: Save a reusable set of UTM parameters
+ *     description: The preset is shared with everyone on your team.
+ *     tags: [UTM Presets]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               utmSource:
+ *                 type: string
+ *               utmMedium:
+ *                 type: string
+ *               utmCampaign:
+ *                 type: string
+ *               utmTerm:
+ *                 type: string
+ *               utmContent:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Preset created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UtmPreset'
+ *       400:
+ *         description: Invalid input or your team already has a preset with that name
+ */
+app.post('/api/utm-presets', async (req, res) => {
+  try {
+    const userId = requireUserId(req);
+    const { name, ...utmParams } = createUtmPresetSchema.parse(req.body);
+    const teamId = await getTeamId(userId);
+
+    const existing = await prisma.utmPreset.findFirst({
+      where: { teamId, name }
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A preset with this name already exists' });
+    }
+
+    const preset = await prisma.utmPreset.create({
+      data: { ...utmParams, name, teamId, userId },
+    });
+
+    res.status(201).json(preset);
+  } catch (error) {
+    console.error('Error creating UTM preset:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/utm-presets/{id}:
+ *   delete:
+ *     summary: Delete a UTM preset
+ *     description: >
+ *       Any member of the team can delete its presets. Links created from the
+ *       preset keep their UTM parameters.
+ *     tags: [UTM Presets]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Preset deleted
+ *       404:
+ *         description: Preset not found
+ */
+app.delete('/api/utm-presets/:id', async (req, res) => {
+  try {
+    const existing = await prisma.utmPreset.findFirst({
+      where: { id: req.params.id, teamId: await getTeamId(requireUserId(req)) }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+
+    await prisma.utmPreset.delete({
+      where: { id: existing.id }
+    });
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting UTM preset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/team:
+ *   get:
+ *     summary: Get your team
+ *     description: Team members share UTM presets. Give colleagues the invite code to let them join.
+ *     tags: [Team]
+ *     responses:
+ *       200:
+ *         description: Team with its invite code and members
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Team'
+ */
+app.get('/api/team', async (req, res) => {
+  try {
+    const team = await prisma.team.findUnique({
+      where: { id: await getTeamId(requireUserId(req)) },
+      include: TEAM_INCLUDE,
+    });
+
+    res.json(team);
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/team/join:
+ *   post:
+ *     summary: Join a team with its invite code
+ *     description: >
+ *       Leaves your current team. Presets stay with the team they were saved in,
+ *       so you see the new team's presets from now on.
+ *     tags: [Team]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - inviteCode
+ *             properties:
+ *               inviteCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The team you joined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Team'
+ *       404:
+ *         description: No team has this invite code
+ */
+app.post('/api/team/join', async (req, res) => {
+  try {
+    const { inviteCode } = joinTeamSchema.parse(req.body);
+
+    const team = await prisma.team.findUnique({
+      where: { inviteCode }
+    });
+    if (!team) {
+      return res.status(404).json({ error: 'Invalid invite code' });
+    }
+
+    await prisma.user.update({
+      where: { id: requireUserId(req) },
+      data: { teamId: team.id },
+    });
+
+    res.json(await prisma.team.findUnique({ where: { id: team.id }, include: TEAM_INCLUDE }));
+  } catch (error) {
+    console.error('Error joining team:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/team/invite-code:
+ *   post:
+ *     summary: Replace your team's invite code
+ *     description: The old code stops working. Current members stay on the team.
+ *     tags: [Team]
+ *     responses:
+ *       200:
+ *         description: Team with its new invite code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Team'
+ */
+app.post('/api/team/invite-code', async (req, res) => {
+  try {
+    const team = await prisma.team.update({
+      where: { id: await getTeamId(requireUserId(req)) },
+      data: { inviteCode: generateInviteCode() },
+      include: TEAM_INCLUDE,
+    });
+
+    res.json(team);
+  } catch (error) {
+    console.error('Error rotating team invite code:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/domains:
+ *   get:
+ *     summary: List your custom domains
+ *     tags: [Domains]
+ *     responses:
+ *       200:
+ *         description: Domains sorted by hostname
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Domain'
  */
+app.get('/api/domains', async (req, res) => {
+  try {
+    const domains = await prisma.domain.findMany({
+      where: { userId: requireUserId(req) },
+      orderBy: { hostname: 'asc' },
+    });
+
+    res.json(domains.map(serializeDomain));
+  } catch (error) {
+    console.error('Error fetching domains:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
 /**
  * @swagger
- * /api/links:
+ * /api/domains:
  *   post:
- *     summary: Create a new short link
- *     tags: [Links]
+ *     summary: Add a custom domain
+ *     description: >
+ *       Point the domain's DNS at this server and publish the TXT record named
+ *       by verificationRecord with the value linksly-verification={verificationToken},
+ *       then call the verify endpoint. Once verified, create links on it with
+ *       domainId. Short links are served at https://{hostname}/s/{code}.
+ *     tags: [Domains]
  *     requestBody:
  *       required: true
  *       content:
@@ -85,60 +3163,45 @@ const createLinkSchema = z.object({
  *           schema:
  *             type: object
  *             required:
- *               - originalUrl
+ *               - hostname
  *             properties:
- *               originalUrl:
- *                 type: string
- *               customAlias:
- *                 type: string
- *               title:
- *                 type: string
- *               description:
+ *               hostname:
  *                 type: string
+ *                 example: go.example.com
  *     responses:
  *       201:
- *         description: Link created successfully
+ *         description: Domain added
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Link'
+ *               $ref: '#/components/schemas/Domain'
+ *       400:
+ *         description: Invalid hostname, one of this service's own hosts, or a domain that is already registered
  */
-app.post('/api/links', async (req, res) => {
+app.post('/api/domains', async (req, res) => {
   try {
-    const { originalUrl, customAlias, title, description, expiresAt } = createLinkSchema.parse(req.body);
-    
-    const formattedUrl = formatUrl(originalUrl);
-    
-    if (!isValidUrl(formattedUrl)) {
-      return res.status(400).json({ error: 'Invalid URL' });
+    const userId = requireUserId(req);
+    const { hostname } = createDomainSchema.parse(req.body);
+
+    if (getAppHostnames(req).includes(hostname)) {
+      return res.status(400).json({ error: "This service's own hosts cannot be added as custom domains" });
     }
 
-    let shortCode = customAlias || nanoid(8);
-    
-    // Check if custom alias already exists
-    if (customAlias) {
-      const existing = await prisma.link.findUnique({
-        where: { customAlias }
-      });
-      if (existing) {
-        return res.status(400).json({ error: 'Custom alias already exists' });
-      }
+    // Unverified claims by other users do not block this one
+    const existing = await prisma.domain.findFirst({
+      where: { hostname, OR: [{ userId }, { verifiedAt: { not: null } }] }
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'Domain is already registered' });
     }
 
-    const link = await prisma.link.create({
-      data: {
-        originalUrl: formattedUrl,
-        shortCode,
-        customAlias,
-        title,
-        description,
-        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
-      },
+    const domain = await prisma.domain.create({
+      data: { hostname, userId, verificationToken: generateVerificationToken() },
     });
 
-    res.status(201).json(link);
+    res.status(201).json(serializeDomain(domain));
   } catch (error) {
-    console.error('Error creating link:', error);
+    console.error('Error creating domain:', error);
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input data' });
     }
@@ -148,66 +3211,84 @@ app.post('/api/links', async (req, res) => {
 
 /**
  * @swagger
- * /api/links:
- *   get:
- *     summary: Get all links with pagination
- *     tags: [Links]
+ * /api/domains/{id}/verify:
+ *   post:
+ *     summary: Verify ownership of a custom domain
+ *     description: >
+ *       Looks up the domain's TXT record. On success the domain starts serving
+ *       links and other users' pending claims on the hostname are removed.
+ *     tags: [Domains]
  *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *       - in: query
- *         name: limit
+ *       - in: path
+ *         name: id
+ *         required: true
  *         schema:
- *           type: integer
- *           default: 10
+ *           type: string
  *     responses:
  *       200:
- *         description: List of links
+ *         description: Domain verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Domain'
+ *       400:
+ *         description: The TXT record was not found, or another user verified the hostname first
+ *       404:
+ *         description: Domain not found
  */
-app.get('/api/links', async (req, res) => {
+app.post('/api/domains/:id/verify', async (req, res) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const existing = await prisma.domain.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+    });
 
-    const [links, total] = await Promise.all([
-      prisma.link.findMany({
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          _count: {
-            select: { clicks: true }
-          }
-        }
+    if (!existing) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+
+    if (existing.verifiedAt) {
+      return res.json(serializeDomain(existing));
+    }
+
+    const claimed = await prisma.domain.findFirst({
+      where: { hostname: existing.hostname, verifiedAt: { not: null } },
+    });
+    if (claimed) {
+      return res.status(400).json({ error: 'Domain is already registered' });
+    }
+
+    if (!(await hasVerificationRecord(existing.hostname, existing.verificationToken))) {
+      return res.status(400).json({
+        error: `TXT record ${getVerificationRecordName(existing.hostname)} with value linksly-verification=${existing.verificationToken} was not found`,
+      });
+    }
+
+    const [domain] = await prisma.$transaction([
+      prisma.domain.update({
+        where: { id: existing.id },
+        data: { verifiedAt: new Date() },
+      }),
+      prisma.domain.deleteMany({
+        where: { hostname: existing.hostname, id: { not: existing.id } },
       }),
-      prisma.link.count()
     ]);
 
-    res.json({
-      links,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
-    });
+    invalidateDomains();
+
+    res.json(serializeDomain(domain));
   } catch (error) {
-    console.error('Error fetching links:', error);
+    console.error('Error verifying domain:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /api/links/{id}:
- *   get:
- *     summary: Get link details
- *     tags: [Links]
+ * /api/domains/{id}:
+ *   delete:
+ *     summary: Remove a custom domain
+ *     description: Only domains without links can be removed.
+ *     tags: [Domains]
  *     parameters:
  *       - in: path
  *         name: id
@@ -215,194 +3296,197 @@ app.get('/api/links', async (req, res) => {
  *         schema:
  *           type: string
  *     responses:
- *       200:
- *         description: Link details
+ *       204:
+ *         description: Domain removed
+ *       404:
+ *         description: Domain not found
+ *       409:
+ *         description: The domain still has links
  */
-app.get('/api/links/:id', async (req, res) => {
+app.delete('/api/domains/:id', async (req, res) => {
   try {
-    const link = await prisma.link.findUnique({
-      where: { id: req.params.id },
-      include: {
-        clicks: {
-          orderBy: { createdAt: 'desc' },
-          take: 100
-        }
-      }
+    const existing = await prisma.domain.findFirst({
+      where: { id: req.params.id, userId: requireUserId(req) },
+      include: { _count: { select: { links: true } } },
     });
 
-    if (!link) {
-      return res.status(404).json({ error: 'Link not found' });
+    if (!existing) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+
+    if (existing._count.links > 0) {
+      return res.status(409).json({ error: 'Delete the links on this domain first' });
     }
 
-    res.json(link);
+    await prisma.domain.delete({
+      where: { id: existing.id }
+    });
+
+    invalidateDomains();
+
+    res.status(204).end();
   } catch (error) {
-    console.error('Error fetching link:', error);
+    console.error('Error deleting domain:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /api/links/{id}/qr:
- *   get:
- *     summary: Generate QR code for a link
- *     tags: [Links]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
+ * /api/admin/keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: Requires the ADMIN_API_KEY. The full key is only returned once.
+ *     tags: [Admin]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - userId
+ *             properties:
+ *               name:
+ *                 type: string
+ *               userId:
+ *                 type: string
+ *                 description: Owner of the key; requests made with it are scoped to this user's links
  *     responses:
- *       200:
- *         description: QR code image
+ *       201:
+ *         description: API key created
  */
-app.get('/api/links/:id/qr', async (req, res) => {
+app.post('/api/admin/keys', requireAdmin, async (req, res) => {
   try {
-    const link = await prisma.link.findUnique({
-      where: { id: req.params.id }
-    });
+    const { name, userId } = createApiKeySchema.parse(req.body);
 
-    if (!link) {
-      return res.status(404).json({ error: 'Link not found' });
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
     }
 
-    const shortUrl = `${req.protocol}://${req.get('host')}/s/${link.shortCode}`;
-    const qrCode = await QRCode.toDataURL(shortUrl);
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        userId,
+        key: generateApiKey(),
+      },
+    });
 
-    res.json({ qrCode });
+    res.status(201).json(apiKey);
   } catch (error) {
-    console.error('Error generating QR code:', error);
+    console.error('Error creating API key:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input data' });
+    }
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /s/{shortCode}:
+ * /api/admin/keys:
  *   get:
- *     summary: Redirect to original URL
- *     tags: [Redirect]
+ *     summary: List API keys
+ *     description: Requires the ADMIN_API_KEY. Keys are returned masked.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: List of API keys
+ */
+app.get('/api/admin/keys', requireAdmin, async (_req, res) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      keys: apiKeys.map((apiKey) => ({ ...apiKey, key: maskApiKey(apiKey.key) }))
+    });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Requires the ADMIN_API_KEY. The key is deactivated, not deleted.
+ *     tags: [Admin]
  *     parameters:
  *       - in: path
- *         name: shortCode
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
  *     responses:
- *       302:
- *         description: Redirect to original URL
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
  */
-app.get('/s/:shortCode', async (req, res) => {
+app.delete('/api/admin/keys/:id', requireAdmin, async (req, res) => {
   try {
-    const { shortCode } = req.params;
-    
-    const link = await prisma.link.findFirst({
-      where: {
-        OR: [
-          { shortCode },
-          { customAlias: shortCode }
-        ],
-        isActive: true
-      }
+    const existing = await prisma.apiKey.findUnique({
+      where: { id: req.params.id }
     });
 
-    if (!link) {
-      return res.status(404).json({ error: 'Link not found' });
-    }
-
-    // Check if link has expired
-    if (link.expiresAt && new Date() > link.expiresAt) {
-      return res.status(410).json({ error: 'Link has expired' });
+    if (!existing) {
+      return res.status(404).json({ error: 'API key not found' });
     }
 
-    // Record click analytics
-    await Promise.all([
-      prisma.click.create({
-        data: {
-          linkId: link.id,
-          ip: req.ip,
-          userAgent: req.get('User-Agent'),
-          referer: req.get('Referer'),
-        }
-      }),
-      prisma.link.update({
-        where: { id: link.id },
-        data: { totalClicks: { increment: 1 } }
-      })
-    ]);
+    const apiKey = await prisma.apiKey.update({
+      where: { id: existing.id },
+      data: { isActive: false }
+    });
 
-    res.redirect(link.originalUrl);
+    res.json({ ...apiKey, key: maskApiKey(apiKey.key) });
   } catch (error) {
-    console.error('Error redirecting:', error);
+    console.error('Error revoking API key:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /api/analytics/overview:
+ * /api/admin/cache-stats:
  *   get:
- *     summary: Get analytics overview
- *     tags: [Analytics]
+ *     summary: Get short-code cache statistics
+ *     description: Requires the ADMIN_API_KEY. Use the hit rate and evictions to size LINK_CACHE_SIZE.
+ *     tags: [Admin]
  *     responses:
  *       200:
- *         description: Analytics overview
+ *         description: Cache size and hit/miss counters
  */
-app.get('/api/analytics/overview', async (req, res) => {
-  try {
-    const [totalLinks, totalClicks, recentClicks] = await Promise.all([
-      prisma.link.count(),
-      prisma.click.count(),
-      prisma.click.count({
-        where: {
-          createdAt: {
-            gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // Last 7 days
-          }
-        }
-      })
-    ]);
-
-    // Get top links
-    const topLinks = await prisma.link.findMany({
-      take: 5,
-      orderBy: { totalClicks: 'desc' },
-      select: {
-        id: true,
-        originalUrl: true,
-        shortCode: true,
-        totalClicks: true,
-        title: true
-      }
-    });
-
-    // Get clicks over time (last 7 days)
-    const clicksOverTime = await prisma.$queryRaw`
-      SELECT 
-        DATE(createdAt) as date,
-        COUNT(*) as clicks
-      FROM clicks 
-      WHERE createdAt >= datetime('now', '-7 days')
-      GROUP BY DATE(createdAt)
-      ORDER BY date ASC
-    `;
-
-    res.json({
-      totalLinks,
-      totalClicks,
-      recentClicks,
-      topLinks,
-      clicksOverTime
-    });
-  } catch (error) {
-    console.error('Error fetching analytics:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
+app.get('/api/admin/cache-stats', requireAdmin, (_req, res) => {
+  res.json(getLinkCacheStats());
 });
 
-app.listen(PORT, () => {
+initGeoIp();
+startClickQueue();
+
+const server = app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
   console.log(`API docs available at http://localhost:${PORT}/api-docs`);
 });
 
+// Graceful shutdown: stop accepting requests, then write out queued clicks
+const shutdown = (signal: string) => {
+  console.log(`${signal} received, shutting down...`);
+  server.close(async () => {
+    await drainClickQueue();
+    await prisma.$disconnect();
+    process.exit(0);
+  });
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
 export default app;
\ No newline at end of file
@@ -1,15 +1,54 @@
-export interface Link {
+export interface UtmParams {
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmTerm?: string;
+  utmContent?: string;
+}
+
+export interface Domain {
+  id: string;
+  hostname: string;
+  verificationRecord: string; // TXT record name
+  verificationToken: string;
+  verifiedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RedirectType = '301' | '302' | '307' | '308' | 'meta-refresh';
+
+export interface Link extends UtmParams {
   id: string;
   originalUrl: string;
+  domainId?: string;
+  domain?: Pick<Domain, 'id' | 'hostname'>;
   shortCode: string;
   customAlias?: string;
   title?: string;
   description?: string;
+  faviconUrl?: string;
+  imageUrl?: string;
+  metadataFetchedAt?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  ogImageUrl?: string;
   createdAt: string;
   updatedAt: string;
+  activeFrom?: string;
   expiresAt?: string;
+  fallbackUrl?: string;
   isActive: boolean;
+  maxClicks?: number;
+  singleUse: boolean;
+  forwardQuery: boolean;
+  forwardPath: boolean;
+  redirectType: RedirectType;
+  forcePreview: boolean;
+  hasPassword: boolean;
   totalClicks: number;
+  botClicks: number;
+  totalPreviews: number;
   clicks?: Click[];
 }
 
@@ -24,7 +63,52 @@ export interface Click {
   device?: string;
   browser?: string;
   os?: string;
+  isBot: boolean;
+  redirectRuleId?: string;
+  variantId?: string;
+  createdAt: string;
+}
+
+export type Platform = 'ios' | 'android' | 'windows' | 'macos' | 'linux' | 'mobile' | 'desktop';
+
+export interface RedirectRule {
+  id: string;
+  linkId: string;
+  country?: string;
+  region?: string;
+  platform?: Platform;
+  destinationUrl: string;
+  deepLinkUrl?: string;
   createdAt: string;
+  updatedAt: string;
+}
+
+export interface LinkVariant {
+  id: string;
+  linkId: string;
+  label?: string;
+  destinationUrl: string;
+  weight: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VariantStats {
+  id: string;
+  label?: string;
+  destinationUrl: string;
+  weight: number;
+  clicks: number;
+  share: number;
+  expectedShare: number;
+}
+
+export interface CreateRedirectRuleRequest {
+  country?: string;
+  region?: string;
+  platform?: Platform;
+  destinationUrl: string;
+  deepLinkUrl?: string;
 }
 
 export interface Analytics {
@@ -35,11 +119,16 @@ export interface Analytics {
   clicksOverTime: ClicksOverTime[];
 }
 
+export interface AnalyticsQuery {
+  includeBots?: boolean;
+}
+
 export interface TopLink {
   id: string;
   originalUrl: string;
   shortCode: string;
   totalClicks: number;
+  botClicks: number;
   title?: string;
 }
 
@@ -48,12 +137,148 @@ export interface ClicksOverTime {
   clicks: number;
 }
 
-export interface CreateLinkRequest {
+export type AnalyticsGranularity = 'hour' | 'day' | 'week';
+
+export interface TimeSeriesPoint {
+  bucket: string;
+  clicks: number;
+}
+
+export interface BreakdownEntry {
+  value: string;
+  clicks: number;
+}
+
+export interface LinkAnalytics {
+  linkId: string;
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  includeBots: boolean;
+  totalClicks: number;
+  timeSeries: TimeSeriesPoint[];
+  breakdowns: {
+    referers: BreakdownEntry[];
+    countries: BreakdownEntry[];
+    cities: BreakdownEntry[];
+    devices: BreakdownEntry[];
+    browsers: BreakdownEntry[];
+    os: BreakdownEntry[];
+  };
+  variants: VariantStats[];
+}
+
+export interface LinkAnalyticsQuery {
+  granularity?: AnalyticsGranularity;
+  from?: string;
+  to?: string;
+  limit?: number;
+  includeBots?: boolean;
+}
+
+export interface ExportQuery {
+  format?: 'csv' | 'ndjson';
+  from?: string;
+  to?: string;
+  fields?: string[];
+}
+
+export interface CreateLinkRequest extends UtmParams {
   originalUrl: string;
+  domainId?: string;
   customAlias?: string;
   title?: string;
   description?: string;
+  activeFrom?: string;
   expiresAt?: string;
+  fallbackUrl?: string;
+  maxClicks?: number;
+  singleUse?: boolean;
+  forwardQuery?: boolean;
+  forwardPath?: boolean;
+  redirectType?: RedirectType;
+  forcePreview?: boolean;
+  fetchMetadata?: boolean;
+  ogTitle?: string;
+  ogDescription?: string;
+  ogImageUrl?: string;
+  password?: string;
+  redirectRules?: CreateRedirectRuleRequest[];
+}
+
+export interface BulkRowResult {
+  row: number;
+  status: 'created' | 'failed';
+  link?: Link;
+  error?: string;
+  code?: string;
+}
+
+export interface BulkCreateResponse {
+  created: number;
+  failed: number;
+  results: BulkRowResult[];
+}
+
+export interface UpdateLinkRequest {
+  originalUrl?: string;
+  title?: string | null;
+  description?: string | null;
+  activeFrom?: string | null;
+  expiresAt?: string | null;
+  fallbackUrl?: string | null;
+  maxClicks?: number | null;
+  forwardQuery?: boolean;
+  forwardPath?: boolean;
+  redirectType?: RedirectType;
+  forcePreview?: boolean;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  utmTerm?: string | null;
+  utmContent?: string | null;
+  ogTitle?: string | null;
+  ogDescription?: string | null;
+  ogImageUrl?: string | null;
+  isActive?: boolean;
+  password?: string | null;
+}
+
+export interface UtmPreset extends UtmParams {
+  id: string;
+  teamId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  inviteCode: string;
+  members: Pick<User, 'id' | 'email' | 'name'>[];
+}
+
+export interface CreateUtmPresetRequest extends UtmParams {
+  name: string;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+}
+
+export interface SignupRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
 }
 
 export interface GetLinksResponse {